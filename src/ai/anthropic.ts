@@ -0,0 +1,91 @@
+import { readLines } from './stream';
+import { AIProvider, AIProviderType, CompletionOptions, ProviderConfig, TokenUsage } from './types';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+export class AnthropicProvider implements AIProvider {
+    readonly type: AIProviderType = 'anthropic';
+    readonly model: string;
+    private config: ProviderConfig;
+
+    constructor(config: ProviderConfig) {
+        this.config = config;
+        this.model = config.model;
+    }
+
+    async complete(prompt: string, options: CompletionOptions = {}): Promise<string> {
+        try {
+            const response = await fetch(`${this.config.baseUrl}/messages`, {
+                method: 'POST',
+                signal: options.signal,
+                headers: {
+                    'x-api-key': this.config.apiKey,
+                    'anthropic-version': ANTHROPIC_VERSION,
+                    // Obsidian runs in a browser context; Anthropic rejects CORS requests without this opt-in
+                    'anthropic-dangerous-direct-browser-access': 'true',
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({
+                    model: this.model,
+                    max_tokens: this.config.maxTokens,
+                    temperature: this.config.temperature,
+                    stream: Boolean(options.onToken),
+                    messages: [
+                        { role: 'user', content: prompt },
+                    ],
+                }),
+            });
+
+            if (options.onToken && response.ok) {
+                return await this.readStream(response, options.onToken, options.onUsage);
+            }
+
+            const data = await response.json().catch(() => null);
+            if (!response.ok) {
+                throw new Error(data?.error?.message || `HTTP error! status: ${response.status}`);
+            }
+
+            if (data?.usage) {
+                options.onUsage?.({ inputTokens: data.usage.input_tokens, outputTokens: data.usage.output_tokens });
+            }
+            return (data?.content || [])
+                .filter((block: { type: string }) => block.type === 'text')
+                .map((block: { text: string }) => block.text)
+                .join('');
+        } catch (error) {
+            console.error('Error calling Anthropic API:', error);
+            throw error;
+        }
+    }
+
+    /** Collects the text deltas from the server-sent events of a streamed response. */
+    private async readStream(response: Response, onToken: (text: string) => void, onUsage?: (usage: TokenUsage) => void): Promise<string> {
+        let text = '';
+        const usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+        await readLines(response, line => {
+            if (!line.startsWith('data:')) {
+                return;
+            }
+
+            const event = JSON.parse(line.slice('data:'.length));
+            if (event.type === 'error') {
+                throw new Error(event.error?.message || 'The stream was interrupted.');
+            }
+            if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+                text += event.delta.text;
+                onToken(event.delta.text);
+            }
+            // Input tokens come with the first event; the output count in message_delta is cumulative
+            if (event.type === 'message_start') {
+                usage.inputTokens = event.message?.usage?.input_tokens ?? 0;
+            }
+            if (event.type === 'message_delta' && event.usage) {
+                usage.outputTokens = event.usage.output_tokens;
+            }
+        });
+        if (usage.inputTokens || usage.outputTokens) {
+            onUsage?.(usage);
+        }
+        return text;
+    }
+}
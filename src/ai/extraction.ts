@@ -0,0 +1,242 @@
+import { RunHooks } from '../progress';
+import { chunkTranscript, estimateTokens } from './summarize';
+import { AIProvider, TokenUsage } from './types';
+
+const MAX_ATTEMPTS = 3;
+
+export interface ActionItem {
+    text: string;
+    owner: string | null;
+    // As phrased in the chat, e.g. "by Friday"
+    due: string | null;
+    // Reference of the message it came from, e.g. "m12"
+    source: string;
+}
+
+export interface ExtractedItem {
+    text: string;
+    source: string;
+}
+
+export interface SharedLink {
+    url: string;
+    title: string | null;
+    source: string;
+}
+
+export interface Entity {
+    name: string;
+    // e.g. ticker, company, person, project
+    kind: string | null;
+    source: string;
+}
+
+export interface Extraction {
+    actionItems: ActionItem[];
+    decisions: ExtractedItem[];
+    questions: ExtractedItem[];
+    links: SharedLink[];
+    entities: Entity[];
+}
+
+export class ExtractionError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ExtractionError';
+    }
+}
+
+const SCHEMA = `{
+  "actionItems": [{ "text": string, "owner": string | null, "due": string | null, "source": string }],
+  "decisions": [{ "text": string, "source": string }],
+  "questions": [{ "text": string, "source": string }],
+  "links": [{ "url": string, "title": string | null, "source": string }],
+  "entities": [{ "name": string, "kind": string | null, "source": string }]
+}`;
+
+function createExtractionPrompt(transcript: string, index: number, total: number): string {
+    const part = total > 1 ? `This is part ${index + 1} of ${total} of the log. ` : '';
+    return `Below is a Discord chat log. Each line starts with a message reference such as [m12]. ${part}
+        Extract the action items (with who should do them and any deadline mentioned), the decisions that were made, the questions left unanswered, the links that were shared and the tickers, companies, people and projects that were discussed.
+        Every item must have the reference of the message it comes from, without brackets, as "source". Leave lists empty when there is nothing to report; don't invent items.
+        Reply with only a JSON object matching this schema, without any other text:
+        ${SCHEMA}\n\n${transcript}`;
+}
+
+function createRetryPrompt(prompt: string, errors: string[]): string {
+    return `${prompt}\n\nYour previous reply could not be used:\n${errors.map(error => `- ${error}`).join('\n')}\nReply again with only the corrected JSON object.`;
+}
+
+/** Pulls the JSON object out of a reply, ignoring code fences or stray text around it. */
+export function parseJsonReply(reply: string): unknown {
+    const start = reply.indexOf('{');
+    const end = reply.lastIndexOf('}');
+    if (start === -1 || end < start) {
+        throw new ExtractionError('The reply did not contain a JSON object.');
+    }
+
+    try {
+        return JSON.parse(reply.slice(start, end + 1));
+    } catch (error) {
+        throw new ExtractionError(`The reply was not valid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+}
+
+type FieldType = 'string' | 'nullable string' | 'message reference' | 'url';
+
+const FIELDS: Record<keyof Extraction, Record<string, FieldType>> = {
+    actionItems: { text: 'string', owner: 'nullable string', due: 'nullable string', source: 'message reference' },
+    decisions: { text: 'string', source: 'message reference' },
+    questions: { text: 'string', source: 'message reference' },
+    links: { url: 'url', title: 'nullable string', source: 'message reference' },
+    entities: { name: 'string', kind: 'nullable string', source: 'message reference' },
+};
+
+function checkField(value: unknown, type: FieldType): boolean {
+    switch (type) {
+        case 'string':
+            return typeof value === 'string' && value.trim() !== '';
+        case 'nullable string':
+            return value === undefined || value === null || typeof value === 'string';
+        case 'message reference':
+            return typeof value === 'string' && /^m\d+$/.test(value);
+        case 'url':
+            return typeof value === 'string' && /^https?:\/\//.test(value);
+    }
+}
+
+/**
+ * Checks a parsed reply against the extraction schema. Returns the errors
+ * found, which are sent back to the model when retrying.
+ */
+export function validateExtraction(value: unknown): string[] {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return ['The reply must be a JSON object.'];
+    }
+
+    const errors: string[] = [];
+    for (const [list, fields] of Object.entries(FIELDS)) {
+        const items = (value as Record<string, unknown>)[list];
+        if (!Array.isArray(items)) {
+            errors.push(`"${list}" must be an array.`);
+            continue;
+        }
+
+        items.forEach((item, index) => {
+            if (typeof item !== 'object' || item === null) {
+                errors.push(`${list}[${index}] must be an object.`);
+                return;
+            }
+            for (const [field, type] of Object.entries(fields)) {
+                if (!checkField((item as Record<string, unknown>)[field], type)) {
+                    errors.push(`${list}[${index}].${field} must be a ${type}.`);
+                }
+            }
+        });
+    }
+
+    // Long lists of errors don't help the model more than the first few
+    return errors.slice(0, 10);
+}
+
+function emptyExtraction(): Extraction {
+    return { actionItems: [], decisions: [], questions: [], links: [], entities: [] };
+}
+
+/** Fills in optional fields the model left out, so the result matches the interfaces. */
+function normalize(value: Extraction): Extraction {
+    return {
+        actionItems: value.actionItems.map(item => ({ ...item, owner: item.owner || null, due: item.due || null })),
+        decisions: value.decisions,
+        questions: value.questions,
+        links: value.links.map(link => ({ ...link, title: link.title || null })),
+        entities: value.entities.map(entity => ({ ...entity, kind: entity.kind || null })),
+    };
+}
+
+function merge(target: Extraction, part: Extraction): void {
+    target.actionItems.push(...part.actionItems);
+    target.decisions.push(...part.decisions);
+    target.questions.push(...part.questions);
+    // The same link or entity is often mentioned in several parts; keep the first mention
+    target.links.push(...part.links.filter(link => !target.links.some(existing => existing.url === link.url)));
+    target.entities.push(...part.entities.filter(entity =>
+        !target.entities.some(existing => existing.name.toLowerCase() === entity.name.toLowerCase())));
+}
+
+/**
+ * Asks the model for action items, decisions, questions, links and entities
+ * as JSON, retrying with the validation errors when the reply doesn't match
+ * the schema. Long transcripts are extracted in chunks and merged.
+ */
+export class Extractor {
+    private provider: AIProvider;
+    private tokenBudget: number;
+    private maxOutputTokens: number;
+    private hooks: RunHooks;
+
+    constructor(provider: AIProvider, tokenBudget: number, maxOutputTokens: number, hooks: RunHooks = {}) {
+        this.provider = provider;
+        this.tokenBudget = tokenBudget;
+        this.maxOutputTokens = maxOutputTokens;
+        this.hooks = hooks;
+    }
+
+    async extract(transcript: string): Promise<Extraction> {
+        const chunks = this.chunk(transcript);
+        if (chunks.length > 1) {
+            this.hooks.onStage?.('chunking');
+        }
+
+        const extraction = emptyExtraction();
+        for (let i = 0; i < chunks.length; i++) {
+            this.hooks.onStage?.('summarizing', chunks.length > 1 ? `part ${i + 1} of ${chunks.length}` : undefined);
+            merge(extraction, await this.extractChunk(createExtractionPrompt(chunks[i], i, chunks.length)));
+        }
+        return extraction;
+    }
+
+    /** Projects the tokens `extract` will send and, at most, receive, assuming no retries. */
+    estimate(transcript: string): TokenUsage & { requests: number } {
+        const chunks = this.chunk(transcript);
+        return {
+            requests: chunks.length,
+            inputTokens: chunks.reduce((total, chunk, i) => total + estimateTokens(createExtractionPrompt(chunk, i, chunks.length)), 0),
+            outputTokens: chunks.length * this.maxOutputTokens,
+        };
+    }
+
+    private chunk(transcript: string): string[] {
+        const overhead = estimateTokens(createExtractionPrompt('', 0, 1));
+        const inputBudget = Math.max(256, this.tokenBudget - this.maxOutputTokens - overhead);
+        return estimateTokens(transcript) <= inputBudget ? [transcript] : chunkTranscript(transcript, inputBudget);
+    }
+
+    private async extractChunk(prompt: string): Promise<Extraction> {
+        let errors: string[] = [];
+
+        for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+            const reply = await this.provider.complete(
+                errors.length > 0 ? createRetryPrompt(prompt, errors) : prompt,
+                { signal: this.hooks.signal }
+            );
+
+            let parsed: unknown;
+            try {
+                parsed = parseJsonReply(reply);
+            } catch (error) {
+                errors = [error instanceof Error ? error.message : 'The reply could not be parsed.'];
+                console.warn(`Extraction attempt ${attempt} failed:`, errors);
+                continue;
+            }
+
+            errors = validateExtraction(parsed);
+            if (errors.length === 0) {
+                return normalize(parsed as Extraction);
+            }
+            console.warn(`Extraction attempt ${attempt} failed:`, errors);
+        }
+
+        throw new ExtractionError(`The AI model did not return valid structured output after ${MAX_ATTEMPTS} attempts: ${errors.join(' ')}`);
+    }
+}
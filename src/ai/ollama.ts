@@ -0,0 +1,74 @@
+import { readLines } from './stream';
+import { AIProvider, AIProviderType, CompletionOptions, ProviderConfig, TokenUsage } from './types';
+
+export class OllamaProvider implements AIProvider {
+    readonly type: AIProviderType = 'ollama';
+    readonly model: string;
+    private config: ProviderConfig;
+
+    constructor(config: ProviderConfig) {
+        this.config = config;
+        this.model = config.model;
+    }
+
+    async complete(prompt: string, options: CompletionOptions = {}): Promise<string> {
+        try {
+            const response = await fetch(`${this.config.baseUrl}/api/chat`, {
+                method: 'POST',
+                signal: options.signal,
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({
+                    model: this.model,
+                    stream: Boolean(options.onToken),
+                    messages: [
+                        { role: 'user', content: prompt },
+                    ],
+                    options: {
+                        temperature: this.config.temperature,
+                        num_predict: this.config.maxTokens,
+                    },
+                }),
+            });
+
+            if (options.onToken && response.ok) {
+                return await this.readStream(response, options.onToken, options.onUsage);
+            }
+
+            const data = await response.json().catch(() => null);
+            if (!response.ok) {
+                throw new Error(data?.error || `HTTP error! status: ${response.status}`);
+            }
+
+            if (data?.done) {
+                options.onUsage?.({ inputTokens: data.prompt_eval_count ?? 0, outputTokens: data.eval_count ?? 0 });
+            }
+            return data?.message?.content ?? '';
+        } catch (error) {
+            console.error('Error calling Ollama API:', error);
+            throw error;
+        }
+    }
+
+    /** Collects the message content from Ollama's newline-delimited JSON stream. */
+    private async readStream(response: Response, onToken: (text: string) => void, onUsage?: (usage: TokenUsage) => void): Promise<string> {
+        let text = '';
+        await readLines(response, line => {
+            const chunk = JSON.parse(line);
+            if (chunk.error) {
+                throw new Error(chunk.error);
+            }
+            const delta = chunk.message?.content;
+            if (delta) {
+                text += delta;
+                onToken(delta);
+            }
+            // The last chunk carries the token counts
+            if (chunk.done) {
+                onUsage?.({ inputTokens: chunk.prompt_eval_count ?? 0, outputTokens: chunk.eval_count ?? 0 });
+            }
+        });
+        return text;
+    }
+}
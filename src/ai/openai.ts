@@ -1,25 +1,86 @@
 // Import the OpenAI npm module
 import { OpenAI } from 'openai';
+import { AIProvider, AIProviderType, CompletionOptions, ProviderConfig } from './types';
 
-// Define the function to call the OpenAI chat endpoint
-export async function getCompletion(prompt: string, key: string, model: string = 'gpt-4o') {
-    try {
-        // Configure the OpenAI API client
-        const openai = new OpenAI({
-            apiKey: key,
-             dangerouslyAllowBrowser: true 
+/**
+ * Talks to the OpenAI chat completions API, or to any server exposing the
+ * same API (LM Studio, vLLM, ...) when constructed with a custom base URL.
+ */
+export class OpenAIProvider implements AIProvider {
+    readonly type: AIProviderType;
+    readonly model: string;
+    private client: OpenAI;
+    private temperature: number;
+    private maxTokens: number;
+
+    constructor(config: ProviderConfig, type: AIProviderType = 'openai') {
+        this.type = type;
+        this.model = config.model;
+        this.temperature = config.temperature;
+        this.maxTokens = config.maxTokens;
+        this.client = new OpenAI({
+            // Local OpenAI-compatible servers usually ignore the key, but the SDK requires one
+            apiKey: config.apiKey || 'not-needed',
+            baseURL: config.baseUrl || undefined,
+            dangerouslyAllowBrowser: true,
         });
-        const response = await openai.chat.completions.create({
-            model: model,
-            messages: [
-              { role: 'user', content: prompt },
-            ],
-          });
+    }
+
+    async complete(prompt: string, options: CompletionOptions = {}): Promise<string> {
+        if (options.onToken) {
+            return this.stream(prompt, options.onToken, options);
+        }
+
+        try {
+            const response = await this.client.chat.completions.create({
+                model: this.model,
+                temperature: this.temperature,
+                max_tokens: this.maxTokens,
+                messages: [
+                    { role: 'user', content: prompt },
+                ],
+            }, { signal: options.signal });
+
+            if (response.usage) {
+                options.onUsage?.({ inputTokens: response.usage.prompt_tokens, outputTokens: response.usage.completion_tokens });
+            }
+            return response.choices[0]?.message?.content ?? '';
+        } catch (error) {
+            console.error('Error calling OpenAI API:', error);
+            throw error;
+        }
+    }
 
-        return response.choices[0]?.message?.content;
+    private async stream(prompt: string, onToken: (text: string) => void, { signal, onUsage }: CompletionOptions): Promise<string> {
+        let text = '';
+        try {
+            const stream = await this.client.chat.completions.create({
+                model: this.model,
+                temperature: this.temperature,
+                max_tokens: this.maxTokens,
+                stream: true,
+                // Compatible servers don't all accept stream_options, so only ask OpenAI for usage
+                ...(this.type === 'openai' ? { stream_options: { include_usage: true } } : {}),
+                messages: [
+                    { role: 'user', content: prompt },
+                ],
+            }, { signal });
 
-    } catch (error) {
-        console.error('Error calling OpenAI API:', error);
-        throw error;
+            for await (const chunk of stream) {
+                const delta = chunk.choices[0]?.delta?.content;
+                if (delta) {
+                    text += delta;
+                    onToken(delta);
+                }
+                // Sent in a last chunk without choices
+                if (chunk.usage) {
+                    onUsage?.({ inputTokens: chunk.usage.prompt_tokens, outputTokens: chunk.usage.completion_tokens });
+                }
+            }
+            return text;
+        } catch (error) {
+            console.error('Error streaming from OpenAI API:', error);
+            throw error;
+        }
     }
 }
@@ -0,0 +1,89 @@
+import { DiscordSummarizerPluginSettings } from '../settings';
+
+export interface PromptTemplate {
+    id: string;
+    name: string;
+    body: string;
+}
+
+export interface PromptVariables {
+    messages: string;
+    channel: string;
+    server: string;
+    start: string;
+    end: string;
+    message_count: string;
+}
+
+export const TEMPLATE_VARIABLES = ['messages', 'channel', 'server', 'start', 'end', 'message_count'];
+
+export const DEFAULT_TEMPLATE_ID = 'builtin-blog-post';
+
+export const BUILT_IN_TEMPLATES: PromptTemplate[] = [
+    {
+        id: DEFAULT_TEMPLATE_ID,
+        name: 'Blog post with stock mentions',
+        body: `Please summarize the following Discord chat messages in a blog post style with paragraphs and bullet points where appropriate.
+Focus on the key discussions, decisions, and new information shared.
+Include a list of any stocks mentioned with a sentence for each describing its importance and the directional sentiment.
+This is very important: Ensure that any time a PRICE or LEVEL is mentioned, you include the corresponding stock, ETF, or index.
+Organize the content logically and highlight important points:
+
+{{messages}}`,
+    },
+    {
+        id: 'builtin-meeting-notes',
+        name: 'Meeting notes',
+        body: `Write meeting notes for the following {{message_count}} messages from #{{channel}} ({{server}}), {{start}} to {{end}}.
+Use these sections: Attendees (everyone who spoke), Topics discussed, Decisions, Action items (with owner where known) and Open questions.
+Keep each point short and factual:
+
+{{messages}}`,
+    },
+    {
+        id: 'builtin-changelog',
+        name: 'Changelog',
+        body: `The following messages from #{{channel}} cover {{start}} to {{end}}. Extract everything that was released, changed, fixed, deprecated or announced, and write it as a changelog.
+Group entries under Added, Changed, Fixed and Removed, one bullet per change. Leave out general discussion that did not result in a change:
+
+{{messages}}`,
+    },
+    {
+        id: 'builtin-qa-digest',
+        name: 'Q&A digest',
+        body: `Create a Q&A digest of the following messages from #{{channel}} ({{start}} to {{end}}).
+List each question that was asked, followed by the best answer given in the conversation. Mark questions that were left unanswered.
+Merge duplicate questions and skip small talk:
+
+{{messages}}`,
+    },
+];
+
+export function allTemplates(settings: DiscordSummarizerPluginSettings): PromptTemplate[] {
+    return [...BUILT_IN_TEMPLATES, ...settings.promptTemplates];
+}
+
+export function isBuiltInTemplate(id: string): boolean {
+    return BUILT_IN_TEMPLATES.some(template => template.id === id);
+}
+
+/** Looks up a template by ID, falling back to the configured default and then the first built-in. */
+export function findTemplate(settings: DiscordSummarizerPluginSettings, id?: string): PromptTemplate {
+    const templates = allTemplates(settings);
+    return templates.find(template => template.id === id)
+        ?? templates.find(template => template.id === settings.defaultTemplateId)
+        ?? BUILT_IN_TEMPLATES[0];
+}
+
+export function usesVariable(template: PromptTemplate, name: string): boolean {
+    return template.body.includes(`{{${name}}}`);
+}
+
+export function renderTemplate(template: PromptTemplate, variables: PromptVariables): string {
+    const values = variables as unknown as Record<string, string>;
+    const rendered = template.body.replace(/\{\{(\w+)\}\}/g, (match, name) =>
+        Object.prototype.hasOwnProperty.call(values, name) ? values[name] : match);
+
+    // Templates that don't say where the transcript goes get it appended
+    return usesVariable(template, 'messages') ? rendered : `${rendered}\n\n${variables.messages}`;
+}
@@ -0,0 +1,82 @@
+import { DiscordSummarizerPluginSettings } from '../settings';
+import { AnthropicProvider } from './anthropic';
+import { OllamaProvider } from './ollama';
+import { OpenAIProvider } from './openai';
+import { AIProvider, AIProviderType } from './types';
+
+export const PROVIDER_NAMES: Record<AIProviderType, string> = {
+    'openai': 'OpenAI',
+    'openai-compatible': 'OpenAI-compatible (LM Studio, vLLM, ...)',
+    'anthropic': 'Anthropic',
+    'ollama': 'Ollama (local)',
+};
+
+export const DEFAULT_MODELS: Record<AIProviderType, string> = {
+    'openai': 'gpt-4o',
+    'openai-compatible': 'local-model',
+    'anthropic': 'claude-3-5-sonnet-latest',
+    'ollama': 'llama3.1',
+};
+
+// Conservative context windows, used until the user configures a budget for a model
+export const DEFAULT_TOKEN_BUDGETS: Record<AIProviderType, number> = {
+    'openai': 120000,
+    'openai-compatible': 8000,
+    'anthropic': 180000,
+    'ollama': 8000,
+};
+
+const ANTHROPIC_API_BASE = 'https://api.anthropic.com/v1';
+
+// Older versions stored the full chat completions URL rather than the API base
+function toBaseUrl(endpoint: string): string {
+    return endpoint.trim().replace(/\/+$/, '').replace(/\/chat\/completions$/, '');
+}
+
+export function resolveModel(settings: DiscordSummarizerPluginSettings): string {
+    return settings.aiModel.trim() || DEFAULT_MODELS[settings.aiProvider];
+}
+
+export function tokenBudgetKey(settings: DiscordSummarizerPluginSettings): string {
+    return `${settings.aiProvider}/${resolveModel(settings)}`;
+}
+
+export function resolveTokenBudget(settings: DiscordSummarizerPluginSettings): number {
+    return settings.tokenBudgets[tokenBudgetKey(settings)] || DEFAULT_TOKEN_BUDGETS[settings.aiProvider];
+}
+
+export function createProvider(settings: DiscordSummarizerPluginSettings): AIProvider {
+    const common = {
+        model: resolveModel(settings),
+        temperature: settings.aiTemperature,
+        maxTokens: settings.aiMaxTokens,
+    };
+
+    switch (settings.aiProvider) {
+        case 'openai-compatible':
+            return new OpenAIProvider({
+                ...common,
+                apiKey: settings.compatibleKey,
+                baseUrl: toBaseUrl(settings.compatibleEndpoint),
+            }, 'openai-compatible');
+        case 'anthropic':
+            return new AnthropicProvider({
+                ...common,
+                apiKey: settings.anthropicKey,
+                baseUrl: ANTHROPIC_API_BASE,
+            });
+        case 'ollama':
+            return new OllamaProvider({
+                ...common,
+                apiKey: '',
+                baseUrl: toBaseUrl(settings.ollamaEndpoint),
+            });
+        case 'openai':
+        default:
+            return new OpenAIProvider({
+                ...common,
+                apiKey: settings.openAIKey,
+                baseUrl: toBaseUrl(settings.openAIEndpoint),
+            });
+    }
+}
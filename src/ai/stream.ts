@@ -0,0 +1,34 @@
+/**
+ * Calls `onLine` for each line of a streamed response body, for the
+ * newline-delimited formats used by server-sent events and Ollama.
+ */
+export async function readLines(response: Response, onLine: (line: string) => void): Promise<void> {
+    if (!response.body) {
+        throw new Error('The response has no body to stream.');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) {
+            break;
+        }
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        // The last piece may be an incomplete line
+        buffer = lines.pop() ?? '';
+        for (const line of lines) {
+            if (line.trim()) {
+                onLine(line.trim());
+            }
+        }
+    }
+
+    if (buffer.trim()) {
+        onLine(buffer.trim());
+    }
+}
@@ -0,0 +1,140 @@
+import { RunHooks } from '../progress';
+import { AIProvider, TokenUsage } from './types';
+
+// Rough average for English chat text; deliberately errs on the high side
+const CHARS_PER_TOKEN = 3.5;
+
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Splits a transcript into chunks of at most `maxTokens` estimated tokens,
+ * breaking on line boundaries so individual messages stay intact where possible.
+ */
+export function chunkTranscript(transcript: string, maxTokens: number): string[] {
+    const maxChars = Math.max(1, Math.floor(maxTokens * CHARS_PER_TOKEN));
+    const chunks: string[] = [];
+    let current = '';
+
+    for (const line of transcript.split('\n')) {
+        // A single message longer than a whole chunk has to be hard-split
+        const pieces = line.length > maxChars
+            ? line.match(new RegExp(`[\\s\\S]{1,${maxChars}}`, 'g')) || []
+            : [line];
+
+        for (const piece of pieces) {
+            if (current && current.length + piece.length + 1 > maxChars) {
+                chunks.push(current);
+                current = '';
+            }
+            current = current ? `${current}\n${piece}` : piece;
+        }
+    }
+
+    if (current) {
+        chunks.push(current);
+    }
+
+    return chunks;
+}
+
+function createPartialPrompt(chunk: string, index: number, total: number): string {
+    return `The following is part ${index + 1} of ${total} of a Discord chat log, in chronological order.
+        Write concise notes of the key discussions, decisions and new information shared in this part.
+        Keep names, numbers, prices, levels, tickers, links and message references such as [m12] exactly as written, since these notes will later be merged with the notes of the other parts:\n\n${chunk}`;
+}
+
+function joinPartials(partials: string[]): string {
+    return `The conversation was too long to process at once, so it was split into ${partials.length} consecutive parts. Below are notes for each part, in chronological order. Treat them as the chat messages to summarize:\n\n`
+        + partials.map((partial, i) => `### Part ${i + 1}\n${partial}`).join('\n\n');
+}
+
+/**
+ * Summarizes a transcript with map-reduce when it does not fit the model's
+ * context window: each chunk gets a partial summary, and the partials are
+ * merged by a final pass through `buildPrompt`.
+ */
+export class Summarizer {
+    private provider: AIProvider;
+    private tokenBudget: number;
+    private maxOutputTokens: number;
+    private hooks: RunHooks;
+
+    constructor(provider: AIProvider, tokenBudget: number, maxOutputTokens: number, hooks: RunHooks = {}) {
+        this.provider = provider;
+        this.tokenBudget = tokenBudget;
+        this.maxOutputTokens = maxOutputTokens;
+        this.hooks = hooks;
+    }
+
+    async summarize(transcript: string, buildPrompt: (content: string) => string): Promise<string> {
+        const inputBudget = this.inputBudget(buildPrompt);
+        if (estimateTokens(transcript) <= inputBudget) {
+            this.hooks.onStage?.('summarizing');
+            return this.complete(buildPrompt(transcript), true);
+        }
+
+        this.hooks.onStage?.('chunking');
+        let partials = await this.summarizeChunks(chunkTranscript(transcript, this.inputBudget(createPartialPrompt)));
+
+        // Partial summaries can themselves overflow on very long ranges; keep folding until they fit
+        while (partials.length > 1 && estimateTokens(joinPartials(partials)) > inputBudget) {
+            const folded = await this.summarizeChunks(chunkTranscript(partials.join('\n\n'), this.inputBudget(createPartialPrompt)));
+            if (folded.length >= partials.length) {
+                // Budget is too small to make progress; let the final pass try with what we have
+                partials = folded;
+                break;
+            }
+            partials = folded;
+        }
+
+        this.hooks.onStage?.('summarizing', 'merging parts');
+        return this.complete(buildPrompt(joinPartials(partials)), true);
+    }
+
+    /**
+     * Projects the tokens `summarize` will send and, at most, receive. Folding
+     * partial notes that still don't fit isn't accounted for.
+     */
+    estimate(transcript: string, buildPrompt: (content: string) => string): TokenUsage & { requests: number } {
+        if (estimateTokens(transcript) <= this.inputBudget(buildPrompt)) {
+            return { requests: 1, inputTokens: estimateTokens(buildPrompt(transcript)), outputTokens: this.maxOutputTokens };
+        }
+
+        const chunks = chunkTranscript(transcript, this.inputBudget(createPartialPrompt));
+        const partialTokens = chunks.reduce((total, chunk, i) => total + estimateTokens(createPartialPrompt(chunk, i, chunks.length)), 0);
+        // The merging pass reads the notes of every part, up to what fits in the context window
+        const mergeTokens = Math.min(
+            estimateTokens(buildPrompt('')) + chunks.length * this.maxOutputTokens,
+            Math.max(256, this.tokenBudget - this.maxOutputTokens)
+        );
+        return {
+            requests: chunks.length + 1,
+            inputTokens: partialTokens + mergeTokens,
+            outputTokens: (chunks.length + 1) * this.maxOutputTokens,
+        };
+    }
+
+    // Only the final pass is streamed; partial notes aren't meant to be read
+    private complete(prompt: string, final = false): Promise<string> {
+        return this.provider.complete(prompt, {
+            signal: this.hooks.signal,
+            onToken: final ? this.hooks.onToken : undefined,
+        });
+    }
+
+    private async summarizeChunks(chunks: string[]): Promise<string[]> {
+        const partials: string[] = [];
+        for (let i = 0; i < chunks.length; i++) {
+            this.hooks.onStage?.('summarizing', `part ${i + 1} of ${chunks.length}`);
+            partials.push(await this.complete(createPartialPrompt(chunks[i], i, chunks.length)));
+        }
+        return partials;
+    }
+
+    private inputBudget(buildPrompt: (content: string, index: number, total: number) => string): number {
+        const overhead = estimateTokens(buildPrompt('', 0, 1));
+        return Math.max(256, this.tokenBudget - this.maxOutputTokens - overhead);
+    }
+}
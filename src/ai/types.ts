@@ -0,0 +1,28 @@
+export type AIProviderType = 'openai' | 'openai-compatible' | 'anthropic' | 'ollama';
+
+export interface ProviderConfig {
+    apiKey: string;
+    baseUrl: string;
+    model: string;
+    temperature: number;
+    maxTokens: number;
+}
+
+export interface TokenUsage {
+    inputTokens: number;
+    outputTokens: number;
+}
+
+export interface CompletionOptions {
+    signal?: AbortSignal;
+    // When set, the completion is streamed and each piece of text is passed here as it arrives
+    onToken?: (text: string) => void;
+    // Receives the token counts reported by the API, for providers that report them
+    onUsage?: (usage: TokenUsage) => void;
+}
+
+export interface AIProvider {
+    readonly type: AIProviderType;
+    readonly model: string;
+    complete(prompt: string, options?: CompletionOptions): Promise<string>;
+}
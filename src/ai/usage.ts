@@ -0,0 +1,225 @@
+import { isAbortError } from '../discord/http';
+import { ProviderError } from '../errors';
+import { DiscordSummarizerPluginSettings } from '../settings';
+import { resolveModel, tokenBudgetKey } from './provider';
+import { estimateTokens } from './summarize';
+import { AIProvider, AIProviderType, CompletionOptions, TokenUsage } from './types';
+
+/** In US dollars per million tokens. */
+export interface ModelPrice {
+    input: number;
+    output: number;
+}
+
+// List prices, matched against the start of the model name with the longest prefix winning.
+// They change over time, so they can be overridden per model in the settings
+const MODEL_PRICES: Record<string, ModelPrice> = {
+    'gpt-4o-mini': { input: 0.15, output: 0.6 },
+    'gpt-4o': { input: 2.5, output: 10 },
+    'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+    'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+    'gpt-4.1': { input: 2, output: 8 },
+    'gpt-4-turbo': { input: 10, output: 30 },
+    'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+    'o1-mini': { input: 1.1, output: 4.4 },
+    'o1': { input: 15, output: 60 },
+    'o3-mini': { input: 1.1, output: 4.4 },
+    'claude-3-haiku': { input: 0.25, output: 1.25 },
+    'claude-3-5-haiku': { input: 0.8, output: 4 },
+    'claude-3-5-sonnet': { input: 3, output: 15 },
+    'claude-3-7-sonnet': { input: 3, output: 15 },
+    'claude-sonnet-4': { input: 3, output: 15 },
+    'claude-3-opus': { input: 15, output: 75 },
+    'claude-opus-4': { input: 15, output: 75 },
+};
+
+// Older usage records are dropped as new ones come in
+const USAGE_RETENTION_MONTHS = 24;
+
+// Models served from the user's own machine or server
+const LOCAL_PROVIDERS: AIProviderType[] = ['openai-compatible', 'ollama'];
+
+/** The price of the configured model, or null when it isn't known. */
+export function resolvePrice(settings: DiscordSummarizerPluginSettings): ModelPrice | null {
+    const override = settings.modelPrices[tokenBudgetKey(settings)];
+    if (override) {
+        return override;
+    }
+    if (LOCAL_PROVIDERS.includes(settings.aiProvider)) {
+        return { input: 0, output: 0 };
+    }
+
+    const model = resolveModel(settings);
+    const prefix = Object.keys(MODEL_PRICES)
+        .filter(candidate => model.startsWith(candidate))
+        .sort((a, b) => b.length - a.length)[0];
+    return prefix ? MODEL_PRICES[prefix] : null;
+}
+
+export function costOf(usage: TokenUsage, price: ModelPrice | null): number | null {
+    if (!price) {
+        return null;
+    }
+    return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+}
+
+export function formatCost(cost: number | null): string {
+    if (cost === null) {
+        return 'unknown cost';
+    }
+    if (cost > 0 && cost < 0.01) {
+        return '< $0.01';
+    }
+    return `$${cost.toFixed(2)}`;
+}
+
+export function formatTokens(tokens: number): string {
+    return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+}
+
+/** Projected size and cost of summarizing a channel, worked out before anything is sent. */
+export interface CostEstimate extends TokenUsage {
+    messageCount: number;
+    requests: number;
+    // Upper bound, since every request is assumed to use the full output limit
+    cost: number | null;
+}
+
+export function addEstimates(a: CostEstimate, b: CostEstimate): CostEstimate {
+    return {
+        messageCount: a.messageCount + b.messageCount,
+        requests: a.requests + b.requests,
+        inputTokens: a.inputTokens + b.inputTokens,
+        outputTokens: a.outputTokens + b.outputTokens,
+        cost: a.cost === null || b.cost === null ? null : a.cost + b.cost,
+    };
+}
+
+/** e.g. "1204 messages, ~48.2k input tokens in 2 requests, up to $0.21" */
+export function describeEstimate(estimate: CostEstimate): string {
+    const requests = estimate.requests === 1 ? '1 request' : `${estimate.requests} requests`;
+    const cost = estimate.cost === null ? 'unknown cost' : `up to ${formatCost(estimate.cost)}`;
+    return `${estimate.messageCount} messages, ~${formatTokens(estimate.inputTokens)} input tokens in ${requests}, ${cost}`;
+}
+
+/**
+ * Wraps a provider to report the tokens each completion used. When the API
+ * doesn't report usage, e.g. some OpenAI-compatible servers while streaming,
+ * the counts are estimated from the prompt and reply.
+ */
+export class UsageMeter implements AIProvider {
+    readonly type: AIProviderType;
+    readonly model: string;
+    private provider: AIProvider;
+    private onUsage: (usage: TokenUsage) => void;
+
+    constructor(provider: AIProvider, onUsage: (usage: TokenUsage) => void) {
+        this.provider = provider;
+        this.type = provider.type;
+        this.model = provider.model;
+        this.onUsage = onUsage;
+    }
+
+    async complete(prompt: string, options: CompletionOptions = {}): Promise<string> {
+        let reported: TokenUsage | null = null;
+        let text: string;
+        try {
+            text = await this.provider.complete(prompt, {
+                ...options,
+                onUsage: usage => reported = usage,
+            });
+        } catch (error) {
+            // A stream that fails partway may already have been billed for what it reported
+            if (reported) {
+                this.onUsage(reported);
+            }
+            // Marked so callers can tell provider failures from the rest; cancelling isn't one
+            if (options.signal?.aborted || isAbortError(error)) {
+                throw error;
+            }
+            throw new ProviderError(error);
+        }
+        this.onUsage(reported ?? { inputTokens: estimateTokens(prompt), outputTokens: estimateTokens(text) });
+        return text;
+    }
+}
+
+/** Tokens used by one run for one channel. */
+export interface UsageRecord extends TokenUsage {
+    // When the run started, as an ISO string
+    date: string;
+    // Empty for work that spans channels, like a digest's overview
+    channelId: string;
+    label: string;
+    // `provider/model`
+    model: string;
+    // At the prices in effect when the run happened
+    cost: number | null;
+}
+
+export interface UsageTotals extends TokenUsage {
+    runs: number;
+    cost: number;
+    // Some runs used a model without a known price
+    unpriced: boolean;
+}
+
+export interface MonthlyUsage {
+    // YYYY-MM, in local time
+    month: string;
+    total: UsageTotals;
+    channels: { channelId: string; label: string; totals: UsageTotals }[];
+}
+
+function emptyTotals(): UsageTotals {
+    return { runs: 0, inputTokens: 0, outputTokens: 0, cost: 0, unpriced: false };
+}
+
+function addRecord(totals: UsageTotals, record: UsageRecord): void {
+    totals.runs++;
+    totals.inputTokens += record.inputTokens;
+    totals.outputTokens += record.outputTokens;
+    totals.cost += record.cost ?? 0;
+    totals.unpriced ||= record.cost === null;
+}
+
+/** Adds up the records per month and channel, newest month first. */
+export function summarizeUsage(records: UsageRecord[]): MonthlyUsage[] {
+    const months = new Map<string, MonthlyUsage>();
+
+    for (const record of records) {
+        const date = new Date(record.date);
+        const month = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+        let entry = months.get(month);
+        if (!entry) {
+            entry = { month, total: emptyTotals(), channels: [] };
+            months.set(month, entry);
+        }
+
+        let channel = entry.channels.find(candidate => candidate.channelId === record.channelId);
+        if (!channel) {
+            channel = { channelId: record.channelId, label: record.label, totals: emptyTotals() };
+            entry.channels.push(channel);
+        }
+        addRecord(channel.totals, record);
+        addRecord(entry.total, record);
+    }
+
+    return [...months.values()].sort((a, b) => b.month.localeCompare(a.month));
+}
+
+/** Adds `record` to the run's existing record for the same channel, if any, and drops expired records. */
+export function addUsage(records: UsageRecord[], record: UsageRecord): UsageRecord[] {
+    const cutoff = new Date();
+    cutoff.setMonth(cutoff.getMonth() - USAGE_RETENTION_MONTHS);
+    const kept = records.filter(existing => new Date(existing.date) >= cutoff);
+
+    const existing = kept.find(candidate => candidate.date === record.date && candidate.channelId === record.channelId);
+    if (!existing) {
+        return [...kept, record];
+    }
+    existing.inputTokens += record.inputTokens;
+    existing.outputTokens += record.outputTokens;
+    existing.cost = existing.cost === null || record.cost === null ? null : existing.cost + record.cost;
+    return kept;
+}
@@ -0,0 +1,359 @@
+import { Editor, MarkdownView, Notice, ObsidianProtocolData } from 'obsidian';
+import { ExtractionError } from './ai/extraction';
+import { allTemplates } from './ai/prompts';
+import { Message } from './discord/discord';
+import { applyFilter } from './discord/filters';
+import { DiscordApiError, isAbortError } from './discord/http';
+import { describeError, ProviderError } from './errors';
+import type DiscordSummarizerPlugin from './main';
+import { NoteWriter } from './output/noteWriter';
+import { ChannelTarget, createChannelTarget } from './settings';
+import { RunProgress } from './ui/runProgress';
+import { confirmUriRun } from './ui/uriRunModal';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export type ApiErrorCode =
+    // Missing or malformed parameters
+    | 'invalid_request'
+    // The secrets are encrypted and the passphrase wasn't entered
+    | 'locked'
+    | 'cancelled'
+    // Discord rejected a request; `status` has the HTTP status
+    | 'discord_error'
+    // The AI provider failed or returned something unusable
+    | 'provider_error'
+    // Anything else, such as a failure to write the note
+    | 'internal_error';
+
+/** Thrown by every API method; `code` is stable and meant for scripts to branch on. */
+export class ApiError extends Error {
+    code: ApiErrorCode;
+    // HTTP status of the failed Discord request, when there was one
+    status?: number;
+
+    constructor(code: ApiErrorCode, message: string, status?: number) {
+        super(message);
+        this.name = 'ApiError';
+        this.code = code;
+        this.status = status;
+    }
+
+    toJSON(): { code: ApiErrorCode; message: string; status?: number } {
+        return { code: this.code, message: this.message, status: this.status };
+    }
+}
+
+export function toApiError(error: unknown): ApiError {
+    if (error instanceof ApiError) {
+        return error;
+    }
+    if (isAbortError(error)) {
+        return new ApiError('cancelled', 'The run was cancelled.');
+    }
+    if (error instanceof DiscordApiError) {
+        return new ApiError('discord_error', error.message, error.status);
+    }
+    if (error instanceof ProviderError || error instanceof ExtractionError) {
+        return new ApiError('provider_error', describeError(error));
+    }
+    return new ApiError('internal_error', describeError(error));
+}
+
+export interface ChannelRequest {
+    // Defaults to the channel configured in the settings
+    channelId?: string;
+    // Only needed for channels that aren't configured in the settings, for links and mentions
+    serverId?: string;
+    // A Date, anything Date can parse, or a duration before `end` such as "24h" or "7d". Defaults to 24 hours before `end`
+    start?: Date | string;
+    // A Date or anything Date can parse. Defaults to now
+    end?: Date | string;
+    // Aborts the run's requests
+    signal?: AbortSignal;
+}
+
+export type SummaryOutput = 'return' | 'note' | 'cursor';
+
+export interface SummarizeRequest extends ChannelRequest {
+    // Prompt template ID or name; defaults to the channel's template
+    template?: string;
+    // "return" (the default) only returns the summary, "note" also writes a summary note,
+    // "cursor" also inserts it at the cursor of the active note
+    output?: SummaryOutput;
+}
+
+export interface SummarizeResult {
+    summary: string;
+    messageCount: number;
+    start: Date;
+    end: Date;
+    // Path of the written note, for the "note" output
+    path: string | null;
+}
+
+export interface FetchMessagesRequest extends ChannelRequest {
+    // Apply the channel's message filters
+    filter?: boolean;
+}
+
+/**
+ * Available to other plugins and scripts as
+ * `app.plugins.plugins['discord-summarizer'].api`, e.g. from Templater:
+ * `(await api.summarize({ start: '24h' })).summary`.
+ */
+export interface DiscordSummarizerApi {
+    readonly version: 1;
+    summarize(request?: SummarizeRequest): Promise<SummarizeResult>;
+    fetchMessages(request?: FetchMessagesRequest): Promise<Message[]>;
+}
+
+function parseDate(value: Date | string | undefined, name: string, relativeTo: Date | null): Date | null {
+    if (value === undefined || value === '') {
+        return null;
+    }
+    if (value instanceof Date) {
+        return value;
+    }
+
+    const relative = /^(\d+(?:\.\d+)?)\s*([hd])$/i.exec(value.trim());
+    if (relative && relativeTo) {
+        const hours = parseFloat(relative[1]) * (relative[2].toLowerCase() === 'd' ? 24 : 1);
+        return new Date(relativeTo.getTime() - hours * HOUR_MS);
+    }
+
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+        throw new ApiError('invalid_request', `"${value}" is not a valid ${name} date.`);
+    }
+    return date;
+}
+
+/**
+ * The plugin's scriptable API. Runs show the usual progress in the status
+ * bar and ask before going over the cost threshold, like the commands do.
+ */
+export class PluginApi implements DiscordSummarizerApi {
+    readonly version = 1;
+    private plugin: DiscordSummarizerPlugin;
+
+    constructor(plugin: DiscordSummarizerPlugin) {
+        this.plugin = plugin;
+    }
+
+    summarize = async (request: SummarizeRequest = {}): Promise<SummarizeResult> => {
+        const output = request.output ?? 'return';
+        if (!['return', 'note', 'cursor'].includes(output)) {
+            throw new ApiError('invalid_request', `Unknown output "${output}"; use "return", "note" or "cursor".`);
+        }
+        const editor = output === 'cursor' ? this.activeEditor() : null;
+        const templateId = this.resolveTemplate(request.template);
+
+        return this.run(request, async (progress, target, start, end) => {
+            const pipeline = this.plugin.createPipeline(progress);
+            const result = await pipeline.summarizeChannel(target, start, end, templateId);
+
+            let path: string | null = null;
+            if (result.summary && output === 'note') {
+                path = (await new NoteWriter(this.plugin.app, this.plugin.settings).write(await pipeline.toNote(result, start, end))).path;
+            } else if (result.summary && editor) {
+                editor.replaceSelection(result.summary);
+            }
+            if (output !== 'return') {
+                await this.plugin.recordCursor(result);
+            }
+
+            return { summary: result.summary, messageCount: result.messageCount, start, end, path };
+        });
+    };
+
+    fetchMessages = async (request: FetchMessagesRequest = {}): Promise<Message[]> => {
+        return this.run(request, async (progress, target, start, end) => {
+            const messages = await this.plugin.createPipeline(progress).fetchMessages(target, start, end);
+            return request.filter ? applyFilter(messages, target.filter).messages : messages;
+        });
+    };
+
+    /** Validates the channel and range, then runs `task` with a progress indicator, mapping failures to ApiError. */
+    private async run<T>(
+        request: ChannelRequest,
+        task: (progress: RunProgress, target: ChannelTarget, start: Date, end: Date) => Promise<T>
+    ): Promise<T> {
+        const target = this.resolveTarget(request);
+        const end = parseDate(request.end, 'end', null) ?? new Date();
+        const start = parseDate(request.start, 'start', end) ?? new Date(end.getTime() - 24 * HOUR_MS);
+        if (start >= end) {
+            throw new ApiError('invalid_request', 'The start must be before the end.');
+        }
+        const maxDays = this.plugin.settings.maxRangeDays;
+        if (end.getTime() - start.getTime() > maxDays * 24 * HOUR_MS) {
+            throw new ApiError('invalid_request', `The range is longer than the maximum of ${maxDays} days set in the settings.`);
+        }
+
+        if (!await this.plugin.unlockSecrets()) {
+            throw new ApiError('locked', 'The secrets are locked; the passphrase was not entered.');
+        }
+
+        const progress = new RunProgress(this.plugin);
+        progress.confirmEstimate = this.plugin.estimateConfirmation(progress);
+        const abort = () => progress.cancel();
+        request.signal?.addEventListener('abort', abort);
+        try {
+            if (request.signal?.aborted) {
+                throw new ApiError('cancelled', 'The run was cancelled.');
+            }
+            return await task(progress, target, start, end);
+        } catch (error) {
+            throw progress.cancelled ? new ApiError('cancelled', 'The run was cancelled.') : toApiError(error);
+        } finally {
+            request.signal?.removeEventListener('abort', abort);
+            progress.finish();
+        }
+    }
+
+    /** A configured channel keeps its label, filter and template; others are summarized with the defaults. */
+    private resolveTarget(request: ChannelRequest): ChannelTarget {
+        const settings = this.plugin.settings;
+        const channelId = request.channelId?.trim() || settings.discordChannelId;
+        if (!channelId) {
+            throw new ApiError('invalid_request', 'No channelId was given and no channel is configured in the settings.');
+        }
+        if (!/^\d+$/.test(channelId)) {
+            throw new ApiError('invalid_request', `"${channelId}" is not a Discord channel ID.`);
+        }
+
+        if (channelId === settings.discordChannelId) {
+            return createChannelTarget({
+                serverId: request.serverId || settings.discordServerId,
+                channelId,
+                filter: settings.messageFilter,
+            });
+        }
+        const configured = settings.channelTargets.find(target => target.channelId === channelId);
+        if (configured) {
+            return request.serverId ? { ...configured, serverId: request.serverId } : configured;
+        }
+        return createChannelTarget({ serverId: request.serverId ?? '', channelId });
+    }
+
+    private resolveTemplate(template: string | undefined): string | undefined {
+        if (!template) {
+            return undefined;
+        }
+        const found = allTemplates(this.plugin.settings)
+            .find(candidate => candidate.id === template || candidate.name.toLowerCase() === template.toLowerCase());
+        if (!found) {
+            throw new ApiError('invalid_request', `No prompt template with the ID or name "${template}".`);
+        }
+        return found.id;
+    }
+
+    private activeEditor(): Editor {
+        const editor = this.plugin.app.workspace.getActiveViewOfType(MarkdownView)?.editor;
+        if (!editor) {
+            throw new ApiError('invalid_request', 'The "cursor" output needs an open note.');
+        }
+        return editor;
+    }
+}
+
+// Callback schemes allowed without being listed in the settings
+const CALLBACK_SCHEMES = ['https', 'obsidian'];
+
+/**
+ * Checked before the run, so a malformed callback is reported rather than
+ * failing once the run is over. Only the schemes in `allowed` are opened, so
+ * a link can't make the plugin launch arbitrary URLs, like `file:` ones.
+ */
+function parseCallback(value: string | undefined, name: string, allowed: string[]): URL | null {
+    if (!value) {
+        return null;
+    }
+    let url: URL;
+    try {
+        url = new URL(value);
+    } catch (error) {
+        throw new ApiError('invalid_request', `"${name}" is not a valid URL.`);
+    }
+    if (!allowed.includes(url.protocol.slice(0, -1))) {
+        throw new ApiError('invalid_request', `"${name}" uses the "${url.protocol}" scheme, which isn't allowed; add it under "Callback schemes" in the settings.`);
+    }
+    return url;
+}
+
+function callbackUrl(base: URL, values: Record<string, string>): string {
+    const url = new URL(base.href);
+    for (const [key, value] of Object.entries(values)) {
+        url.searchParams.set(key, value);
+    }
+    return url.toString();
+}
+
+/** The URI's parameters as the confirmation lists them. */
+function describeUriRequest(params: ObsidianProtocolData, output: SummaryOutput): string[] {
+    return [
+        `Channel: ${params.channel || params.channelId || 'the configured channel'}`,
+        `From: ${params.start || '24 hours before the end'}`,
+        `To: ${params.end || 'now'}`,
+        ...(params.template ? [`Template: ${params.template}`] : []),
+        `Output: ${output === 'cursor' ? 'at the cursor' : 'a summary note'}`,
+    ];
+}
+
+/**
+ * Handles `obsidian://discord-summarizer?channel=…&start=24h&output=note`,
+ * taking the same parameters as `summarize`. Since any link can open the
+ * URI, the run is confirmed first unless the settings say otherwise.
+ * Results and errors are passed to the `x-success` and `x-error` callback
+ * URLs when given, following the x-callback-url convention; errors carry a
+ * `code` from ApiErrorCode.
+ */
+export async function handleUri(plugin: DiscordSummarizerPlugin, params: ObsidianProtocolData): Promise<void> {
+    const allowed = [...CALLBACK_SCHEMES, ...plugin.settings.callbackSchemes];
+    let onError: URL | null = null;
+    try {
+        // First, so a malformed x-success can still be reported to x-error
+        onError = parseCallback(params['x-error'], 'x-error', allowed);
+        const onSuccess = parseCallback(params['x-success'], 'x-success', allowed);
+
+        // There's nobody to return the summary to, so it is written somewhere by default
+        const output = (params.output || 'note') as SummaryOutput;
+        if (output !== 'note' && output !== 'cursor') {
+            throw new ApiError('invalid_request', `The "${output}" output isn't available from a URI; use "note" or "cursor".`);
+        }
+
+        if (!plugin.settings.runUriWithoutAsking && !await confirmUriRun(plugin.app, describeUriRequest(params, output))) {
+            throw new ApiError('cancelled', 'The run was declined.');
+        }
+
+        const result = await plugin.api.summarize({
+            channelId: params.channel || params.channelId,
+            serverId: params.server || params.serverId,
+            start: params.start,
+            end: params.end,
+            template: params.template,
+            output,
+        });
+
+        if (onSuccess) {
+            window.open(callbackUrl(onSuccess, {
+                messageCount: String(result.messageCount),
+                path: result.path ?? '',
+            }));
+        } else if (result.messageCount === 0) {
+            new Notice('Discord summarizer: no messages in the requested range.');
+        }
+    } catch (error) {
+        const apiError = toApiError(error);
+        console.error('Discord summarizer URI failed:', error);
+        if (onError) {
+            window.open(callbackUrl(onError, {
+                code: apiError.code,
+                message: apiError.message,
+                ...(apiError.status ? { status: String(apiError.status) } : {}),
+            }));
+        } else {
+            new Notice(`Discord summarizer: ${apiError.message} (${apiError.code})`, 10000);
+        }
+    }
+}
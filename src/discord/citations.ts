@@ -0,0 +1,77 @@
+import { Message } from './discord';
+
+// Matches citation groups such as [m3] or [m3, m7]
+const CITATION_GROUP = /\[(m\d+(?:\s*,\s*m\d+)*)\]/g;
+
+export const CITATION_INSTRUCTIONS = 'Each line of the chat log starts with a message reference such as [m12]. '
+    + 'After every point, cite the messages it is based on with their references in square brackets, e.g. [m3] or [m3, m7]. '
+    + 'Only cite references that appear in the log.';
+
+export function messageUrl(serverId: string, channelId: string, messageId: string): string {
+    return `https://discord.com/channels/${serverId || '@me'}/${channelId}/${messageId}`;
+}
+
+/**
+ * Gives each message a short reference (m1, m2, ...) for the transcript,
+ * which costs far fewer tokens than snowflake IDs, and resolves the
+ * references the model cites back to Discord message links.
+ */
+export class CitationIndex {
+    private serverId: string;
+    private channelId: string;
+    private refs = new Map<string, string>();
+    private messages = new Map<string, Message>();
+
+    constructor(messages: Message[], serverId: string, channelId: string) {
+        this.serverId = serverId;
+        this.channelId = channelId;
+        messages.forEach((msg, index) => {
+            const ref = `m${index + 1}`;
+            this.refs.set(msg.id, ref);
+            this.messages.set(ref, msg);
+        });
+    }
+
+    refFor(msg: Message): string | undefined {
+        return this.refs.get(msg.id);
+    }
+
+    /** Link to the cited message, or null when the reference isn't one of the fetched messages. */
+    url(ref: string): string | null {
+        const msg = this.messages.get(ref);
+        // Thread messages carry their own channel ID
+        return msg ? messageUrl(this.serverId, msg.channel_id || this.channelId, msg.id) : null;
+    }
+
+    /**
+     * Turns the citations in `text` into Markdown links. Citations of unknown
+     * references are marked and returned in `invalid`.
+     */
+    link(text: string): { text: string; invalid: string[] } {
+        const invalid = new Set<string>();
+        const linked = text.replace(CITATION_GROUP, (match, group: string) => group
+            .split(',')
+            .map(ref => ref.trim())
+            .map(ref => {
+                const url = this.url(ref);
+                if (!url) {
+                    invalid.add(ref);
+                    return `\`${ref}?\``;
+                }
+                return `[${ref}](${url})`;
+            })
+            .join(' '));
+
+        return { text: linked, invalid: Array.from(invalid) };
+    }
+}
+
+/** Links the citations in a summary and appends a warning when some of them can't be verified. */
+export function linkCitations(summary: string, citations: CitationIndex): string {
+    const { text, invalid } = citations.link(summary);
+    if (invalid.length === 0) {
+        return text;
+    }
+
+    return `${text}\n\n> [!warning] Unverified citations\n> ${invalid.map(ref => `\`${ref}\``).join(', ')} ${invalid.length === 1 ? 'does' : 'do'} not match any fetched message, so the points citing ${invalid.length === 1 ? 'it' : 'them'} could not be checked.`;
+}
@@ -1,97 +1,157 @@
 import { symlink } from "node:fs";
 import { DateUtils } from "./dateUtils";
+import { DiscordApiError, DiscordAuthMode, DiscordHttpClient, isAbortError, sleep } from "./http";
+import { MessageCache } from "./messageCache";
+import { formatMessage, hasContent, TranscriptContext } from "./transcript";
 
-interface ChannelInfo {
+export interface ChannelInfo {
     channelName: string;
     serverName: string;
 }
 
-interface Message {
+export interface User {
     id: string;
-    author: { username: string };
+    username: string;
+    global_name?: string | null;
+    bot?: boolean;
+}
+
+export interface Attachment {
+    id: string;
+    filename: string;
+    url: string;
+    content_type?: string;
+    description?: string;
+}
+
+export interface Embed {
+    type?: string;
+    title?: string;
+    description?: string;
+    url?: string;
+    provider?: { name?: string };
+}
+
+export interface Reaction {
+    count: number;
+    emoji: { id: string | null; name: string | null };
+}
+
+export interface Message {
+    id: string;
+    channel_id?: string;
+    // 0 = default, 19 = reply; other types are system messages such as joins and pins
+    type?: number;
+    author: User;
+    // Only present when the API includes guild member data
+    member?: { nick?: string | null };
     content: string;
     timestamp: string;
+    edited_timestamp?: string | null;
+    attachments?: Attachment[];
+    embeds?: Embed[];
+    mentions?: User[];
+    mention_roles?: string[];
+    reactions?: Reaction[];
+    message_reference?: { message_id?: string; channel_id?: string; guild_id?: string };
+    referenced_message?: Message | null;
+    // Set when a thread was started from this message
+    thread?: { id: string; name: string; message_count?: number };
 }
 
 interface GuildInfo {
     name: string;
 }
 
-export class Discord {
-    private apiBase: string;
-    private rateLimitDelay: number;
+export interface UserGuild {
+    id: string;
+    name: string;
+    owner: boolean;
+    // The user's base permissions in the guild, as a bitfield string
+    permissions: string;
+}
 
-    constructor(apiBase: string, rateLimitDelay: number) {
-        this.apiBase = apiBase;
-        this.rateLimitDelay = rateLimitDelay;
-    }
+export interface PermissionOverwrite {
+    id: string;
+    // 0 = role, 1 = member
+    type: number;
+    allow: string;
+    deny: string;
+}
 
-    formatMessagesForPrompt(messages: Message[]): string {
-        return messages
-            .filter(msg => msg && msg.author && msg.content)
-            .map(msg => `${msg.author.username}: ${msg.content.trim()}`)
-            .join('\n');
-    }
+export interface GuildChannel {
+    id: string;
+    name: string;
+    type: number;
+    position: number;
+    parent_id?: string | null;
+    permission_overwrites?: PermissionOverwrite[];
+}
 
-    createPrompt(messageText: string): string {
-        return `Please summarize the following Discord chat messages in a blog post style with paragraphs and bullet points where appropriate. 
-        Focus on the key discussions, decisions, and new information shared.  
-        Include a list of any stocks mentioned with a sentence for each describing its importance and the directional sentiment.
-        This is very important: Ensure that any time a PRICE or LEVEL is mentioned, you include the corresponding stock, ETF, or index.
-        Organize the content logically and highlight important points:\n\n${messageText}`;
-    }
+export interface ThreadChannel extends GuildChannel {
+    guild_id?: string;
+    last_message_id?: string | null;
+    message_count?: number;
+    thread_metadata?: {
+        archived: boolean;
+        archive_timestamp: string;
+    };
+}
 
-    private async handleResponse(response: Response): Promise<any> {
-        if (response.ok) {
-            return response.json();
-        }
+export interface GuildRole {
+    id: string;
+    name: string;
+}
 
-        let errorMessage = `HTTP error! status: ${response.status}`;
+export interface GuildMember {
+    user?: { id: string };
+    roles: string[];
+}
 
-        switch (response.status) {
-            case 401:
-                errorMessage = 'Invalid Discord token. Please check your credentials.';
-                break;
-            case 403:
-                errorMessage = 'Access denied. Please ensure you have permission to view this channel.';
-                break;
-            case 429:
-                const retryAfter = response.headers.get('Retry-After') || '5';
-                throw {
-                    status: 429,
-                    retryAfter: parseInt(retryAfter, 10) || 5,
-                    message: 'Rate limited by Discord API',
-                };
-            case 404:
-                errorMessage = 'Channel not found. Please check the channel ID.';
-                break;
-        }
+export interface FetchHooks {
+    // Aborts in-flight requests and pending rate limit waits
+    signal?: AbortSignal;
+    // Called after each page of messages is fetched
+    onPage?: (messageCount: number) => void;
+}
 
-        throw new Error(errorMessage);
+export class Discord {
+    private http: DiscordHttpClient;
+    private authMode: DiscordAuthMode;
+    private rateLimitDelay: number;
+    private cache: MessageCache | null;
+    private hooks: FetchHooks;
+    private currentUser: User | null = null;
+
+    constructor(
+        apiBase: string,
+        authMode: DiscordAuthMode,
+        rateLimitDelay: number,
+        cache: MessageCache | null = null,
+        hooks: FetchHooks = {}
+    ) {
+        this.http = new DiscordHttpClient(apiBase, authMode, hooks.signal);
+        this.authMode = authMode;
+        this.rateLimitDelay = rateLimitDelay;
+        this.cache = cache;
+        this.hooks = hooks;
+    }
+
+    formatMessagesForPrompt(messages: Message[], context: TranscriptContext = {}): string {
+        return messages
+            .filter(hasContent)
+            .map(msg => formatMessage(msg, context))
+            .join('\n');
     }
 
     async fetchChannelInfo(channelId: string, userToken: string): Promise<ChannelInfo> {
         try {
-            const channelResponse = await fetch(`${this.apiBase}/channels/${channelId}`, {
-                headers: {
-                    Authorization: userToken,
-                    'Content-Type': 'application/json',
-                },
-            });
-
-            const channelInfo = await this.handleResponse(channelResponse);
+            const channelInfo = await this.fetchChannel(channelId, userToken);
 
             if (channelInfo.guild_id) {
                 await this.delay(this.rateLimitDelay);
 
-                const guildResponse = await fetch(`${this.apiBase}/guilds/${channelInfo.guild_id}`, {
-                    headers: {
-                        Authorization: userToken,
-                        'Content-Type': 'application/json',
-                    },
-                });
-
-                const guildInfo: GuildInfo = await this.handleResponse(guildResponse);
+                const guildInfo = await this.http.get<GuildInfo>(`/guilds/${channelInfo.guild_id}`, userToken, 'fetch server');
 
                 return {
                     channelName: channelInfo.name,
@@ -104,6 +164,9 @@ export class Discord {
                 serverName: 'Private',
             };
         } catch (error) {
+            if (isAbortError(error)) {
+                throw error;
+            }
             console.warn('Error fetching channel info:', error);
             return {
                 channelName: 'Unknown Channel',
@@ -112,20 +175,81 @@ export class Discord {
         }
     }
 
-    async fetchGuildChannels(guildId: string, userToken: string): Promise<any> {
-        try {
-            const response = await fetch(`${this.apiBase}/guilds/${guildId}/channels`, {
-                headers: {
-                    Authorization: userToken,
-                    'Content-Type': 'application/json',
-                },
-            });
-
-            return this.handleResponse(response);
-        } catch (error) {
-            console.error('Error fetching guild channels:', error);
-            throw new Error(`Failed to fetch guild channels: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    async fetchChannel(channelId: string, userToken: string): Promise<ThreadChannel> {
+        return this.http.get(`/channels/${channelId}`, userToken, 'fetch channel');
+    }
+
+    async fetchActiveThreads(guildId: string, userToken: string): Promise<ThreadChannel[]> {
+        const data = await this.http.get<{ threads?: ThreadChannel[] }>(
+            `/guilds/${guildId}/threads/active`, userToken, 'fetch active threads'
+        );
+        return data.threads || [];
+    }
+
+    async fetchArchivedThreads(
+        channelId: string,
+        userToken: string,
+        before: string | null = null
+    ): Promise<{ threads: ThreadChannel[]; has_more: boolean }> {
+        let path = `/channels/${channelId}/threads/archived/public?limit=100`;
+        if (before) path += `&before=${encodeURIComponent(before)}`;
+
+        return this.http.get(path, userToken, 'fetch archived threads');
+    }
+
+    /**
+     * Finds the active and archived threads (or forum posts) under a channel
+     * that were created before `toDate` and had messages after `fromDate`.
+     */
+    async getThreadsActiveBetween(
+        guildId: string,
+        channelId: string,
+        userToken: string,
+        fromDate: Date,
+        toDate: Date,
+        maxPages = 10
+    ): Promise<ThreadChannel[]> {
+        const dateUtils = new DateUtils();
+        const threads = new Map<string, ThreadChannel>();
+
+        const active = await this.fetchActiveThreads(guildId, userToken);
+        for (const thread of active.filter(thread => thread.parent_id === channelId)) {
+            threads.set(thread.id, thread);
+        }
+
+        // Archived threads come newest-archived first; anything archived before the range can't have activity in it
+        let before: string | null = null;
+        for (let pageCount = 0; pageCount < maxPages; pageCount++) {
+            await this.delay(this.rateLimitDelay);
+            const page = await this.fetchArchivedThreads(channelId, userToken, before);
+
+            let reachedOld = false;
+            for (const thread of page.threads) {
+                const archivedAt = new Date(thread.thread_metadata?.archive_timestamp ?? 0);
+                if (archivedAt < fromDate) {
+                    reachedOld = true;
+                    break;
+                }
+                threads.set(thread.id, thread);
+            }
+
+            if (reachedOld || !page.has_more || page.threads.length === 0) {
+                break;
+            }
+            before = page.threads[page.threads.length - 1].thread_metadata?.archive_timestamp ?? null;
         }
+
+        return Array.from(threads.values())
+            .filter(thread => {
+                const createdAt = dateUtils.snowflakeToDate(thread.id);
+                const lastActivity = thread.last_message_id ? dateUtils.snowflakeToDate(thread.last_message_id) : createdAt;
+                return createdAt && lastActivity && createdAt <= toDate && lastActivity >= fromDate;
+            })
+            .sort((a, b) => (BigInt(a.id) < BigInt(b.id) ? -1 : 1));
+    }
+
+    async fetchGuildChannels(guildId: string, userToken: string): Promise<GuildChannel[]> {
+        return this.http.get(`/guilds/${guildId}/channels`, userToken, 'fetch guild channels');
     }
 
     async fetchMessagesPage(
@@ -134,39 +258,53 @@ export class Discord {
         before: string | null,
         after: string | null = null
     ): Promise<Message[]> {
-        try {
-            let url = `${this.apiBase}/channels/${channelId}/messages?limit=100`;
-            if (before) url += `&before=${before}`;
-            if (after) url += `&after=${after}`;
-
-            const response = await fetch(url, {
-                headers: {
-                    Authorization: userToken,
-                    'Content-Type': 'application/json',
-                },
-            });
-
-            return this.handleResponse(response);
-        } catch (error) {
-            console.error('Error fetching messages:', error);
-            throw error;
+        let path = `/channels/${channelId}/messages?limit=100`;
+        if (before) path += `&before=${before}`;
+        if (after) path += `&after=${after}`;
+
+        const messages = await this.http.get<Message[]>(path, userToken, 'fetch messages');
+        if (this.authMode === 'bot' && this.lacksMessageContent(messages)) {
+            throw new DiscordApiError(
+                403,
+                'Discord returned messages without their content. Enable the Message Content intent on the Bot page of your application in the Discord Developer Portal.'
+            );
         }
+        this.hooks.onPage?.(messages.length);
+        return messages;
     }
 
-    async fetchUserGuilds(userToken: string): Promise<any> {
-        try {
-            const response = await fetch(`${this.apiBase}/users/@me/guilds`, {
-                headers: {
-                    Authorization: userToken,
-                    'Content-Type': 'application/json',
-                },
-            });
-
-            return this.handleResponse(response);
-        } catch (error) {
-            console.error('Error fetching user guilds:', error);
-            throw new Error(`Failed to fetch user guilds: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    /**
+     * Without the privileged Message Content intent Discord still returns
+     * messages to bots, but with empty content, attachments and embeds.
+     */
+    private lacksMessageContent(messages: Message[]): boolean {
+        const regular = messages.filter(msg => !msg.type || msg.type === 19);
+        return regular.length >= 3 && regular.every(msg =>
+            !msg.content && !msg.attachments?.length && !msg.embeds?.length);
+    }
+
+    async fetchUserGuilds(userToken: string): Promise<UserGuild[]> {
+        return this.http.get('/users/@me/guilds', userToken, 'fetch user guilds');
+    }
+
+    async fetchGuildRoles(guildId: string, userToken: string): Promise<GuildRole[]> {
+        return this.http.get(`/guilds/${guildId}/roles`, userToken, 'fetch guild roles');
+    }
+
+    async fetchCurrentUser(userToken: string): Promise<User> {
+        if (!this.currentUser) {
+            this.currentUser = await this.http.get<User>('/users/@me', userToken, 'fetch current user');
+        }
+        return this.currentUser;
+    }
+
+    async fetchCurrentMember(guildId: string, userToken: string): Promise<GuildMember> {
+        if (this.authMode === 'bot') {
+            // Bots can't use the OAuth member endpoint, but can look themselves up like any member
+            const user = await this.fetchCurrentUser(userToken);
+            return this.http.get(`/guilds/${guildId}/members/${user.id}`, userToken, 'fetch guild member');
         }
+        return this.http.get(`/users/@me/guilds/${guildId}/member`, userToken, 'fetch guild member');
     }
 
     async getAllMessagesBetweenDates(
@@ -174,63 +312,172 @@ export class Discord {
         userToken: string,
         fromDate: Date,
         toDate: Date | null = null,
-        maxPages = 50
+        maxPages = 50,
+        refresh = false
     ): Promise<Message[]> {
         try {
             const effectiveToDate = toDate || new Date();
-            const dateUtils = new DateUtils();
-            const beforeSnowflake = dateUtils.dateToDiscordSnowflake(effectiveToDate);
-            const allMessages = new Map<string, Message>();
-            let currentBefore = beforeSnowflake;
-            let pageCount = 0;
-            let hasMore = true;
-            let hitOldMessage = false;
+            if (!this.cache) {
+                const { messages } = await this.fetchMessagesInRange(channelId, userToken, fromDate, effectiveToDate, maxPages);
+                return messages;
+            }
 
-            while (hasMore && pageCount < maxPages && !hitOldMessage) {
-                if (pageCount > 0) {
+            const archive = await this.cache.load(channelId);
+            const coverableEnd = Math.min(effectiveToDate.getTime(), Date.now());
+
+            // Fetch the whole range again, e.g. because reactions counted in a filter may have changed since
+            if (refresh) {
+                const { messages, coveredFrom } = await this.fetchMessagesInRange(channelId, userToken, fromDate, effectiveToDate, maxPages);
+                this.cache.replaceMessages(archive, messages, { start: Math.min(coveredFrom.getTime(), coverableEnd), end: coverableEnd });
+                await this.cache.save(channelId, archive);
+                return messages;
+            }
+
+            // Only ask Discord for the parts of the range the cache hasn't seen; a range can't be complete past "now"
+            const gaps = this.cache.missingRanges(archive, fromDate.getTime(), effectiveToDate.getTime());
+
+            for (let i = 0; i < gaps.length; i++) {
+                if (i > 0) {
                     await this.delay(this.rateLimitDelay);
                 }
+                const gap = gaps[i];
+                const { messages, coveredFrom } = await this.fetchMessagesInRange(
+                    channelId, userToken, new Date(gap.start), new Date(gap.end), maxPages
+                );
+                const end = Math.min(gap.end, coverableEnd);
+                this.cache.addMessages(archive, messages, { start: Math.min(coveredFrom.getTime(), end), end });
+            }
 
-                const messages = await this.fetchMessagesPage(channelId, userToken, currentBefore);
+            if (gaps.length > 0) {
+                await this.cache.save(channelId, archive);
+            }
+
+            return this.cache.messagesBetween(archive, fromDate.getTime(), effectiveToDate.getTime());
+        } catch (error) {
+            // The HTTP client has already logged and described request failures
+            if (error instanceof DiscordApiError || isAbortError(error)) {
+                throw error;
+            }
+            console.error('Error fetching messages:', error);
+            throw new Error(`Failed to fetch messages: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
 
-                if (!messages.length) {
-                    hasMore = false;
-                    continue;
+    /**
+     * Pages backwards from `toDate` until it reaches `fromDate`. `coveredFrom`
+     * is how far back it got, which is later than `fromDate` when `maxPages`
+     * ran out first.
+     */
+    private async fetchMessagesInRange(
+        channelId: string,
+        userToken: string,
+        fromDate: Date,
+        toDate: Date,
+        maxPages: number
+    ): Promise<{ messages: Message[]; coveredFrom: Date }> {
+        const dateUtils = new DateUtils();
+        const beforeSnowflake = dateUtils.dateToDiscordSnowflake(toDate);
+        const allMessages = new Map<string, Message>();
+        let currentBefore = beforeSnowflake;
+        let pageCount = 0;
+        let hasMore = true;
+        let hitOldMessage = false;
+        let coveredFrom = toDate;
+
+        while (hasMore && pageCount < maxPages && !hitOldMessage) {
+            if (pageCount > 0) {
+                await this.delay(this.rateLimitDelay);
+            }
+
+            const messages = await this.fetchMessagesPage(channelId, userToken, currentBefore);
+
+            if (!messages.length) {
+                hasMore = false;
+                continue;
+            }
+
+            for (const msg of messages) {
+                const msgTime = new Date(msg.timestamp).getTime();
+
+                if (msgTime < fromDate.getTime()) {
+                    hitOldMessage = true;
+                    break;
                 }
 
-                for (const msg of messages) {
-                    const msgTime = new Date(msg.timestamp).getTime();
+                if (msgTime >= fromDate.getTime() && msgTime <= toDate.getTime()) {
+                    allMessages.set(msg.id, msg);
+                }
+            }
 
-                    if (msgTime < fromDate.getTime()) {
-                        hitOldMessage = true;
-                        break;
-                    }
+            if (!hitOldMessage && messages.length === 100) {
+                currentBefore = messages[messages.length - 1].id;
+                coveredFrom = new Date(messages[messages.length - 1].timestamp);
+                pageCount++;
+            } else {
+                hasMore = false;
+            }
+        }
+
+        if (!hasMore || hitOldMessage) {
+            coveredFrom = fromDate;
+        }
+
+        const uniqueMessages = Array.from(allMessages.values()).sort(
+            (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+        );
 
-                    if (msgTime >= fromDate.getTime() && msgTime <= effectiveToDate.getTime()) {
-                        allMessages.set(msg.id, msg);
+        return { messages: uniqueMessages, coveredFrom };
+    }
+
+    /**
+     * Pages forward from `afterId` and returns the newer messages, oldest
+     * first. `truncated` is set when `maxPages` ran out before the newest.
+     */
+    async getAllMessagesAfter(
+        channelId: string,
+        userToken: string,
+        afterId: string,
+        maxPages = 50
+    ): Promise<{ messages: Message[]; truncated: boolean }> {
+        try {
+            const allMessages = new Map<string, Message>();
+            let currentAfter = afterId;
+            let truncated = true;
+
+            for (let pageCount = 0; pageCount < maxPages; pageCount++) {
+                if (pageCount > 0) {
+                    await this.delay(this.rateLimitDelay);
+                }
+
+                const messages = await this.fetchMessagesPage(channelId, userToken, null, currentAfter);
+                for (const msg of messages) {
+                    allMessages.set(msg.id, msg);
+                    if (BigInt(msg.id) > BigInt(currentAfter)) {
+                        currentAfter = msg.id;
                     }
                 }
 
-                if (!hitOldMessage && messages.length === 100) {
-                    currentBefore = messages[messages.length - 1].id;
-                    pageCount++;
-                } else {
-                    hasMore = false;
+                if (messages.length < 100) {
+                    truncated = false;
+                    break;
                 }
             }
 
-            const uniqueMessages = Array.from(allMessages.values()).sort(
+            const messages = Array.from(allMessages.values()).sort(
                 (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
             );
-
-            return uniqueMessages;
+            return { messages, truncated };
         } catch (error) {
+            // The HTTP client has already logged and described request failures
+            if (error instanceof DiscordApiError || isAbortError(error)) {
+                throw error;
+            }
             console.error('Error fetching messages:', error);
             throw new Error(`Failed to fetch messages: ${error instanceof Error ? error.message : 'Unknown error'}`);
         }
     }
 
-    private async delay(ms: number): Promise<void> {
-        return new Promise(resolve => setTimeout(resolve, ms));
+    async delay(ms: number): Promise<void> {
+        return sleep(ms, this.hooks.signal);
     }
 }
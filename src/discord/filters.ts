@@ -0,0 +1,125 @@
+import { Message } from './discord';
+import { displayName } from './transcript';
+
+// Regular messages, replies and slash/context menu command results; everything else is a system notice
+const CONVERSATION_TYPES = [0, 19, 20, 23];
+
+export interface MessageFilter {
+    // Usernames, display names or user IDs; when set, only these authors are kept
+    includeAuthors: string[];
+    excludeAuthors: string[];
+    excludeBots: boolean;
+    // Joins, pins, boosts and other system notices
+    excludeSystem: boolean;
+    // In characters, ignoring surrounding whitespace; 0 disables the rule
+    minLength: number;
+    // Regular expressions matched case-insensitively against the content; empty disables the rule
+    includePattern: string;
+    excludePattern: string;
+    // Total reactions across all emoji; 0 disables the rule
+    minReactions: number;
+}
+
+export function createMessageFilter(values: Partial<MessageFilter> = {}): MessageFilter {
+    return {
+        includeAuthors: [],
+        excludeAuthors: [],
+        excludeBots: false,
+        excludeSystem: false,
+        minLength: 0,
+        includePattern: '',
+        excludePattern: '',
+        minReactions: 0,
+        ...values,
+    };
+}
+
+export type FilterRule = 'authors' | 'bots' | 'system' | 'length' | 'pattern' | 'reactions';
+
+export const FILTER_RULE_NAMES: Record<FilterRule, string> = {
+    authors: 'Author rules',
+    bots: 'Bots',
+    system: 'System messages',
+    length: 'Too short',
+    pattern: 'Pattern rules',
+    reactions: 'Too few reactions',
+};
+
+export interface FilterResult {
+    messages: Message[];
+    // Messages removed by each rule; a message is counted under the first rule that removed it
+    removed: Record<FilterRule, number>;
+}
+
+/** Throws when a pattern isn't a valid regular expression, naming the pattern. */
+export function compilePattern(pattern: string): RegExp | null {
+    if (!pattern.trim()) {
+        return null;
+    }
+    try {
+        return new RegExp(pattern, 'i');
+    } catch (error) {
+        throw new Error(`Invalid filter pattern "${pattern}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+}
+
+function matchesAuthor(msg: Message, names: string[]): boolean {
+    const candidates = [msg.author.id, msg.author.username, msg.author.global_name, displayName(msg.author, msg.member)]
+        .filter((name): name is string => Boolean(name))
+        .map(name => name.toLowerCase());
+    return names.some(name => candidates.includes(name.trim().replace(/^@/, '').toLowerCase()));
+}
+
+/** The first rule that removes `msg`, or null when it is kept. */
+function removingRule(msg: Message, filter: MessageFilter, include: RegExp | null, exclude: RegExp | null): FilterRule | null {
+    if (filter.excludeSystem && !CONVERSATION_TYPES.includes(msg.type ?? 0)) {
+        return 'system';
+    }
+    if (filter.excludeBots && msg.author?.bot) {
+        return 'bots';
+    }
+    if (msg.author && ((filter.includeAuthors.length > 0 && !matchesAuthor(msg, filter.includeAuthors))
+        || matchesAuthor(msg, filter.excludeAuthors))) {
+        return 'authors';
+    }
+
+    const content = (msg.content || '').trim();
+    // Attachments and embeds carry information even without text
+    const hasMedia = Boolean(msg.attachments?.length || msg.embeds?.length);
+    if (filter.minLength > 0 && content.length < filter.minLength && !hasMedia) {
+        return 'length';
+    }
+    if ((include && !include.test(content)) || (exclude && exclude.test(content))) {
+        return 'pattern';
+    }
+
+    const reactions = (msg.reactions || []).reduce((total, reaction) => total + reaction.count, 0);
+    if (filter.minReactions > 0 && reactions < filter.minReactions) {
+        return 'reactions';
+    }
+    return null;
+}
+
+export function applyFilter(messages: Message[], filter: MessageFilter): FilterResult {
+    const include = compilePattern(filter.includePattern);
+    const exclude = compilePattern(filter.excludePattern);
+    const removed: Record<FilterRule, number> = { authors: 0, bots: 0, system: 0, length: 0, pattern: 0, reactions: 0 };
+
+    const kept = messages.filter(msg => {
+        const rule = removingRule(msg, filter, include, exclude);
+        if (rule) {
+            removed[rule]++;
+        }
+        return rule === null;
+    });
+
+    return { messages: kept, removed };
+}
+
+/** e.g. "Bots: 12, Too short: 40" */
+export function describeRemoved(removed: Record<FilterRule, number>): string {
+    return (Object.keys(removed) as FilterRule[])
+        .filter(rule => removed[rule] > 0)
+        .map(rule => `${FILTER_RULE_NAMES[rule]}: ${removed[rule]}`)
+        .join(', ');
+}
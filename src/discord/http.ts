@@ -0,0 +1,218 @@
+export class DiscordApiError extends Error {
+    status: number;
+    // Seconds to wait before retrying, for 429 responses
+    retryAfter?: number;
+
+    constructor(status: number, message: string, retryAfter?: number) {
+        super(message);
+        this.name = 'DiscordApiError';
+        this.status = status;
+        this.retryAfter = retryAfter;
+    }
+}
+
+// A user token is sent as is; bot tokens need the "Bot" prefix
+export type DiscordAuthMode = 'user' | 'bot';
+
+export function authorizationHeader(token: string, authMode: DiscordAuthMode): string {
+    if (authMode === 'bot' && !/^Bot /i.test(token)) {
+        return `Bot ${token}`;
+    }
+    return token;
+}
+
+export interface RetryOptions {
+    maxRetries: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+}
+
+const DEFAULT_RETRY: RetryOptions = {
+    maxRetries: 4,
+    baseDelayMs: 1000,
+    maxDelayMs: 30000,
+};
+
+interface BucketState {
+    remaining: number;
+    resetAt: number;
+}
+
+export function abortError(): DOMException {
+    return new DOMException('Aborted', 'AbortError');
+}
+
+export function isAbortError(error: unknown): boolean {
+    return error instanceof DOMException && error.name === 'AbortError';
+}
+
+/** setTimeout as a promise that rejects as soon as `signal` aborts. */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(abortError());
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(abortError());
+        };
+        // Runs share one signal across many waits, so don't leave a listener behind for each
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * GET requests against the Discord API, shared by every endpoint the plugin
+ * uses. Waits out exhausted rate limit buckets before sending, honors
+ * Retry-After on 429, and retries 5xx and network errors with jittered
+ * exponential backoff.
+ */
+export class DiscordHttpClient {
+    private apiBase: string;
+    private authMode: DiscordAuthMode;
+    private signal?: AbortSignal;
+    private retry: RetryOptions;
+    // Route → bucket ID from X-RateLimit-Bucket, since several routes can share a bucket
+    private routeBuckets = new Map<string, string>();
+    private buckets = new Map<string, BucketState>();
+    private globalResetAt = 0;
+
+    constructor(apiBase: string, authMode: DiscordAuthMode, signal?: AbortSignal, retry: RetryOptions = DEFAULT_RETRY) {
+        this.apiBase = apiBase.replace(/\/+$/, '');
+        this.authMode = authMode;
+        this.signal = signal;
+        this.retry = retry;
+    }
+
+    /**
+     * @param action What the request is for, used to prefix error messages,
+     *  e.g. "fetch guild channels".
+     */
+    async get<T>(path: string, token: string, action: string): Promise<T> {
+        const route = this.routeKey(path);
+
+        for (let attempt = 0; ; attempt++) {
+            await this.waitForBucket(route);
+
+            let response: Response;
+            try {
+                response = await fetch(`${this.apiBase}${path}`, {
+                    signal: this.signal,
+                    headers: {
+                        Authorization: authorizationHeader(token, this.authMode),
+                        'Content-Type': 'application/json',
+                    },
+                });
+            } catch (error) {
+                if (isAbortError(error) || attempt >= this.retry.maxRetries) {
+                    console.error(`Failed to ${action}:`, error);
+                    throw error;
+                }
+                // Network failure; back off and try again
+                await sleep(this.backoff(attempt), this.signal);
+                continue;
+            }
+
+            this.updateBucket(route, response);
+
+            if (response.ok) {
+                return response.json();
+            }
+
+            if (response.status === 429 && attempt < this.retry.maxRetries) {
+                const retryAfter = await this.retryAfterSeconds(response);
+                if (response.headers.get('X-RateLimit-Global') === 'true') {
+                    this.globalResetAt = Date.now() + retryAfter * 1000;
+                }
+                await sleep(retryAfter * 1000, this.signal);
+                continue;
+            }
+
+            if (response.status >= 500 && attempt < this.retry.maxRetries) {
+                await sleep(this.backoff(attempt), this.signal);
+                continue;
+            }
+
+            const error = await this.toError(response);
+            console.error(`Failed to ${action}:`, error);
+            throw new DiscordApiError(error.status, `Failed to ${action}: ${error.message}`, error.retryAfter);
+        }
+    }
+
+    // Discord keys buckets on the top-level channel or guild ID; other IDs in the path share a bucket
+    private routeKey(path: string): string {
+        const [base] = path.split('?');
+        const [, major = '', rest = ''] = base.match(/^(\/(?:channels|guilds|webhooks)\/\d+)?(.*)$/) ?? [];
+        return major + rest.replace(/\/\d{16,}/g, '/:id');
+    }
+
+    private async waitForBucket(route: string): Promise<void> {
+        const now = Date.now();
+        if (this.globalResetAt > now) {
+            await sleep(this.globalResetAt - now, this.signal);
+        }
+
+        const bucketId = this.routeBuckets.get(route);
+        const bucket = bucketId ? this.buckets.get(bucketId) : undefined;
+        if (bucket && bucket.remaining <= 0 && bucket.resetAt > Date.now()) {
+            await sleep(bucket.resetAt - Date.now(), this.signal);
+        }
+    }
+
+    private updateBucket(route: string, response: Response): void {
+        const bucketId = response.headers.get('X-RateLimit-Bucket');
+        const remaining = response.headers.get('X-RateLimit-Remaining');
+        const resetAfter = response.headers.get('X-RateLimit-Reset-After');
+        if (!bucketId || remaining === null || resetAfter === null) {
+            return;
+        }
+
+        this.routeBuckets.set(route, bucketId);
+        this.buckets.set(bucketId, {
+            remaining: parseInt(remaining, 10),
+            resetAt: Date.now() + parseFloat(resetAfter) * 1000,
+        });
+    }
+
+    private async retryAfterSeconds(response: Response): Promise<number> {
+        // The JSON body has sub-second precision; the header is whole seconds
+        const body = await response.clone().json().catch(() => null);
+        const retryAfter = parseFloat(body?.retry_after ?? response.headers.get('Retry-After') ?? '5');
+        return isNaN(retryAfter) ? 5 : retryAfter;
+    }
+
+    private backoff(attempt: number): number {
+        const exponential = Math.min(this.retry.maxDelayMs, this.retry.baseDelayMs * 2 ** attempt);
+        // Full jitter between half and the whole delay, so parallel clients don't retry in lockstep
+        return exponential / 2 + Math.random() * exponential / 2;
+    }
+
+    private async toError(response: Response): Promise<DiscordApiError> {
+        const bot = this.authMode === 'bot';
+        switch (response.status) {
+            case 401:
+                return new DiscordApiError(401, bot
+                    ? 'Invalid bot token. Copy the token from the Bot page of your application in the Discord Developer Portal.'
+                    : 'Invalid Discord token. Please check your credentials.');
+            case 403:
+                return new DiscordApiError(403, bot
+                    ? 'Access denied. Make sure the bot has the View Channel and Read Message History permissions in this channel.'
+                    : 'Access denied. Please ensure you have permission to view this channel.');
+            case 404:
+                return new DiscordApiError(404, bot
+                    ? 'Channel not found. Please check the channel ID and that the bot has been added to its server.'
+                    : 'Channel not found. Please check the channel ID.');
+            case 429: {
+                const retryAfter = Math.ceil(await this.retryAfterSeconds(response));
+                return new DiscordApiError(429, `Rate limited by Discord API. Please try again in ${retryAfter} seconds.`, retryAfter);
+            }
+            default:
+                return new DiscordApiError(response.status, `HTTP error! status: ${response.status}`);
+        }
+    }
+}
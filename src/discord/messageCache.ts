@@ -0,0 +1,187 @@
+import { DataAdapter, normalizePath } from 'obsidian';
+import { Message } from './discord';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** A time span, in epoch milliseconds, whose messages are all in the cache. */
+export interface CachedRange {
+    start: number;
+    end: number;
+}
+
+export interface ChannelArchive {
+    ranges: CachedRange[];
+    // Keyed by message ID
+    messages: Record<string, Message>;
+}
+
+/** What the settings list about a channel's archive, without reading it. */
+export interface ArchiveInfo {
+    channelId: string;
+    // In bytes
+    size: number;
+    modified: number;
+}
+
+export interface CacheLimits {
+    retentionDays: number;
+    maxMessagesPerChannel: number;
+}
+
+function compareIds(a: string, b: string): number {
+    const diff = BigInt(a) - BigInt(b);
+    return diff === 0n ? 0 : diff < 0n ? -1 : 1;
+}
+
+/**
+ * Persistent per-channel message store, one JSON file per channel in the
+ * plugin folder. Tracks which time ranges have been fully fetched so only
+ * the gaps need to come from Discord.
+ */
+export class MessageCache {
+    private adapter: DataAdapter;
+    private dir: string;
+    private limits: CacheLimits;
+
+    constructor(adapter: DataAdapter, dir: string, limits: CacheLimits) {
+        this.adapter = adapter;
+        this.dir = normalizePath(dir);
+        this.limits = limits;
+    }
+
+    private pathFor(channelId: string): string {
+        return `${this.dir}/${channelId}.json`;
+    }
+
+    async load(channelId: string): Promise<ChannelArchive> {
+        const path = this.pathFor(channelId);
+        try {
+            if (await this.adapter.exists(path)) {
+                return JSON.parse(await this.adapter.read(path));
+            }
+        } catch (error) {
+            console.warn('Discarding unreadable message cache:', path, error);
+        }
+        return { ranges: [], messages: {} };
+    }
+
+    async save(channelId: string, archive: ChannelArchive): Promise<void> {
+        this.prune(archive);
+        if (!(await this.adapter.exists(this.dir))) {
+            await this.adapter.mkdir(this.dir);
+        }
+        await this.adapter.write(this.pathFor(channelId), JSON.stringify(archive));
+    }
+
+    async clear(channelId: string): Promise<void> {
+        const path = this.pathFor(channelId);
+        if (await this.adapter.exists(path)) {
+            await this.adapter.remove(path);
+        }
+    }
+
+    /** The cached channels, from the file system's metadata only, since archives can be large. */
+    async listArchives(): Promise<ArchiveInfo[]> {
+        if (!(await this.adapter.exists(this.dir))) {
+            return [];
+        }
+        const listing = await this.adapter.list(this.dir);
+        const archives: ArchiveInfo[] = [];
+        for (const file of listing.files.filter(path => path.endsWith('.json'))) {
+            const stat = await this.adapter.stat(file);
+            archives.push({
+                channelId: file.substring(file.lastIndexOf('/') + 1, file.length - '.json'.length),
+                size: stat?.size ?? 0,
+                modified: stat?.mtime ?? 0,
+            });
+        }
+        return archives;
+    }
+
+    /** Parts of [start, end] not yet covered by the archive, oldest first. */
+    missingRanges(archive: ChannelArchive, start: number, end: number): CachedRange[] {
+        const gaps: CachedRange[] = [];
+        let cursor = start;
+
+        for (const range of archive.ranges) {
+            if (range.end < cursor) continue;
+            if (range.start > end) break;
+            if (range.start > cursor) {
+                gaps.push({ start: cursor, end: Math.min(range.start, end) });
+            }
+            cursor = Math.max(cursor, range.end);
+        }
+
+        if (cursor < end) {
+            gaps.push({ start: cursor, end });
+        }
+        return gaps;
+    }
+
+    addMessages(archive: ChannelArchive, messages: Message[], covered: CachedRange): void {
+        for (const msg of messages) {
+            archive.messages[msg.id] = msg;
+        }
+
+        // Insert and merge overlapping or touching ranges
+        const ranges = [...archive.ranges, covered].sort((a, b) => a.start - b.start);
+        archive.ranges = [];
+        for (const range of ranges) {
+            const last = archive.ranges[archive.ranges.length - 1];
+            if (last && range.start <= last.end) {
+                last.end = Math.max(last.end, range.end);
+            } else {
+                archive.ranges.push({ ...range });
+            }
+        }
+    }
+
+    /** Like `addMessages`, but first drops the cached messages in `covered`, so edits and deletions since they were fetched are taken over. */
+    replaceMessages(archive: ChannelArchive, messages: Message[], covered: CachedRange): void {
+        for (const msg of Object.values(archive.messages)) {
+            const time = new Date(msg.timestamp).getTime();
+            if (time >= covered.start && time <= covered.end) {
+                delete archive.messages[msg.id];
+            }
+        }
+        this.addMessages(archive, messages, covered);
+    }
+
+    /** All cached messages, oldest first. */
+    allMessages(archive: ChannelArchive): Message[] {
+        return Object.values(archive.messages).sort((a, b) => compareIds(a.id, b.id));
+    }
+
+    messagesBetween(archive: ChannelArchive, start: number, end: number): Message[] {
+        return this.allMessages(archive).filter(msg => {
+            const time = new Date(msg.timestamp).getTime();
+            return time >= start && time <= end;
+        });
+    }
+
+    private prune(archive: ChannelArchive): void {
+        let cutoff = this.limits.retentionDays > 0 ? Date.now() - this.limits.retentionDays * DAY_MS : 0;
+
+        const messages = this.allMessages(archive);
+        const overLimit = this.limits.maxMessagesPerChannel > 0
+            ? messages.length - this.limits.maxMessagesPerChannel
+            : 0;
+        if (overLimit > 0) {
+            // Coverage has to shrink along with the messages, or the dropped ones would look fetched
+            cutoff = Math.max(cutoff, new Date(messages[overLimit].timestamp).getTime());
+        }
+
+        if (cutoff <= 0) {
+            return;
+        }
+
+        for (const msg of messages) {
+            if (new Date(msg.timestamp).getTime() < cutoff) {
+                delete archive.messages[msg.id];
+            }
+        }
+        archive.ranges = archive.ranges
+            .filter(range => range.end > cutoff)
+            .map(range => ({ start: Math.max(range.start, cutoff), end: range.end }));
+    }
+}
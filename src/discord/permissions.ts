@@ -0,0 +1,58 @@
+import { GuildChannel, GuildMember, UserGuild } from './discord';
+
+export const ChannelType = {
+    GUILD_TEXT: 0,
+    GUILD_CATEGORY: 4,
+    GUILD_ANNOUNCEMENT: 5,
+    GUILD_FORUM: 15,
+    GUILD_MEDIA: 16,
+};
+
+// Channel types whose history can be summarized
+export const SUMMARIZABLE_TYPES = [ChannelType.GUILD_TEXT, ChannelType.GUILD_ANNOUNCEMENT, ChannelType.GUILD_FORUM];
+
+const ADMINISTRATOR = 1n << 3n;
+const VIEW_CHANNEL = 1n << 10n;
+const READ_MESSAGE_HISTORY = 1n << 16n;
+
+/**
+ * Works out whether the user can read a channel's history, following
+ * Discord's overwrite order: @everyone, then roles, then the member itself.
+ * Without member info only the @everyone overwrite can be applied.
+ */
+export function canReadChannel(guild: UserGuild, channel: GuildChannel, member: GuildMember | null): boolean {
+    let permissions = BigInt(guild.permissions || '0');
+    if (guild.owner || (permissions & ADMINISTRATOR) === ADMINISTRATOR) {
+        return true;
+    }
+
+    const overwrites = channel.permission_overwrites || [];
+    const apply = (allow: bigint, deny: bigint) => {
+        permissions = (permissions & ~deny) | allow;
+    };
+
+    const everyone = overwrites.find(overwrite => overwrite.id === guild.id);
+    if (everyone) {
+        apply(BigInt(everyone.allow), BigInt(everyone.deny));
+    }
+
+    if (member) {
+        let roleAllow = 0n;
+        let roleDeny = 0n;
+        for (const overwrite of overwrites) {
+            if (overwrite.type === 0 && member.roles.includes(overwrite.id)) {
+                roleAllow |= BigInt(overwrite.allow);
+                roleDeny |= BigInt(overwrite.deny);
+            }
+        }
+        apply(roleAllow, roleDeny);
+
+        const own = overwrites.find(overwrite => overwrite.type === 1 && overwrite.id === member.user?.id);
+        if (own) {
+            apply(BigInt(own.allow), BigInt(own.deny));
+        }
+    }
+
+    const required = VIEW_CHANNEL | READ_MESSAGE_HISTORY;
+    return (permissions & required) === required;
+}
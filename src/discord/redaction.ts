@@ -0,0 +1,163 @@
+import { Message, User } from './discord';
+import { displayName } from './transcript';
+
+export type PiiDetector = 'email' | 'phone' | 'wallet' | 'secret' | 'ip';
+
+export const PII_DETECTOR_NAMES: Record<PiiDetector, string> = {
+    email: 'Email addresses',
+    phone: 'Phone numbers',
+    wallet: 'Crypto wallet addresses',
+    secret: 'API keys and tokens',
+    ip: 'IP addresses',
+};
+
+const PII_PATTERNS: Record<PiiDetector, RegExp[]> = {
+    email: [/[\w.+-]+@[\w-]+(?:\.[\w-]+)*\.[a-z]{2,}/gi],
+    phone: [
+        // International numbers, which start with a country code
+        /\+\d{1,3}(?:[\s.-]?\(?\d{1,4}\)?){2,5}/g,
+        // (555) 123-4567 and 555-123-4567; bare digit runs are left alone, since prices and IDs look the same
+        /\(?\b\d{3}\)?[\s.-]\d{3}[\s.-]\d{4}\b/g,
+    ],
+    wallet: [
+        /\b0x[a-fA-F0-9]{40}\b/g,
+        /\b(?:bc1[a-z0-9]{25,59}|[13][a-km-zA-HJ-NP-Z1-9]{25,34})\b/g,
+    ],
+    secret: [
+        /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?(?:-----END [A-Z ]*PRIVATE KEY-----|$)/g,
+        /\b(?:sk|pk|rk)-[A-Za-z0-9_-]{20,}/g,
+        /\b(?:ghp|gho|ghu|ghs|ghr|github_pat)_[A-Za-z0-9_]{20,}/g,
+        /\bxox[abposr]-[A-Za-z0-9-]{10,}/g,
+        /\bAKIA[0-9A-Z]{16}\b/g,
+        /\bAIza[0-9A-Za-z_-]{35}\b/g,
+        // Discord tokens
+        /\b[MNO][A-Za-z\d_-]{23,27}\.[A-Za-z\d_-]{6}\.[A-Za-z\d_-]{27,}/g,
+        // JSON web tokens
+        /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]+/g,
+    ],
+    ip: [/\b(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)\b/g],
+};
+
+// Names shorter than this are too likely to match ordinary words
+const MIN_NAME_LENGTH = 2;
+
+export interface RedactionOptions {
+    // Replace author and mentioned names with User A, User B, ... consistently within a run
+    pseudonymize: boolean;
+    // Put the real names back into the finished note; they are never sent to the provider
+    restoreNames: boolean;
+    detectors: PiiDetector[];
+    // Regular expressions, one per entry; matches are replaced with [redacted]
+    patterns: string[];
+}
+
+export function createRedactionOptions(values: Partial<RedactionOptions> = {}): RedactionOptions {
+    return {
+        pseudonymize: false,
+        restoreNames: false,
+        detectors: ['secret'],
+        patterns: [],
+        ...values,
+    };
+}
+
+/** Throws when a pattern isn't a valid regular expression, naming the pattern. */
+export function compileRedactionPattern(pattern: string): RegExp {
+    try {
+        return new RegExp(pattern, 'gi');
+    } catch (error) {
+        throw new Error(`Invalid redaction pattern "${pattern}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** A, B, ..., Z, AA, AB, ... */
+function pseudonym(index: number): string {
+    let label = '';
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+        label = String.fromCharCode(65 + (n - 1) % 26) + label;
+    }
+    return `User ${label}`;
+}
+
+/**
+ * Scrubs a transcript before it is sent to the AI provider: masks personal
+ * data and secrets, and optionally swaps the names of the people in the
+ * conversation for pseudonyms that stay the same across a run.
+ */
+export class Redactor {
+    private options: RedactionOptions;
+    private masks: { regex: RegExp; mask: string }[];
+    // User ID → pseudonym
+    private pseudonyms = new Map<string, string>();
+    // Any name a user goes by → their pseudonym
+    private names = new Map<string, string>();
+    // Pseudonym → the name shown in the note when names are restored
+    private realNames = new Map<string, string>();
+
+    constructor(options: RedactionOptions) {
+        this.options = options;
+        this.masks = [
+            ...options.detectors.flatMap(detector => PII_PATTERNS[detector].map(regex => ({ regex, mask: `[${detector}]` }))),
+            ...options.patterns.filter(pattern => pattern.trim()).map(pattern => ({ regex: compileRedactionPattern(pattern), mask: '[redacted]' })),
+        ];
+    }
+
+    /** Redacts `text`, first learning the names of the authors and mentioned users of `messages`. */
+    redact(text: string, messages: Message[] = []): string {
+        let result = text;
+        for (const { regex, mask } of this.masks) {
+            result = result.replace(regex, mask);
+        }
+
+        if (!this.options.pseudonymize) {
+            return result;
+        }
+        for (const msg of messages) {
+            this.register(msg.author, msg.member);
+            (msg.mentions || []).forEach(user => this.register(user));
+            if (msg.referenced_message?.author) {
+                this.register(msg.referenced_message.author, msg.referenced_message.member);
+            }
+            (msg.referenced_message?.mentions || []).forEach(user => this.register(user));
+        }
+
+        const names = [...this.names.keys()].sort((a, b) => b.length - a.length);
+        if (names.length === 0) {
+            return result;
+        }
+        // Whole names only, so "Al" doesn't turn "Alice" into "User Bice"
+        const pattern = new RegExp(`(?<![\\w])(?:${names.map(escapeRegExp).join('|')})(?![\\w])`, 'g');
+        return result.replace(pattern, name => this.names.get(name) ?? name);
+    }
+
+    /** Puts the real names back in place of pseudonyms, when the user opted in. */
+    restore(text: string): string {
+        if (!this.options.pseudonymize || !this.options.restoreNames) {
+            return text;
+        }
+        return text.replace(/\bUser [A-Z]{1,2}\b/g, label => this.realNames.get(label) ?? label);
+    }
+
+    private register(user: User | undefined, member?: { nick?: string | null }): void {
+        if (!user) {
+            return;
+        }
+
+        let label = this.pseudonyms.get(user.id);
+        if (!label) {
+            label = pseudonym(this.pseudonyms.size);
+            this.pseudonyms.set(user.id, label);
+            this.realNames.set(label, displayName(user, member));
+        }
+
+        for (const name of [member?.nick, user.global_name, user.username]) {
+            if (name && name.length >= MIN_NAME_LENGTH && !this.names.has(name)) {
+                this.names.set(name, label);
+            }
+        }
+    }
+}
@@ -0,0 +1,89 @@
+import { CitationIndex } from './citations';
+import { Attachment, Embed, Message, User } from './discord';
+
+const REPLY_SNIPPET_LENGTH = 80;
+
+/** Names used to resolve mention tokens that the message itself does not carry. */
+export interface TranscriptContext {
+    channelNames?: Map<string, string>;
+    roleNames?: Map<string, string>;
+    // Prefix each line with the message's reference, so the model can cite its sources
+    citations?: CitationIndex;
+}
+
+export function displayName(author: User, member?: { nick?: string | null }): string {
+    return member?.nick || author.global_name || author.username;
+}
+
+/** Whether a message has anything worth putting in a transcript. */
+export function hasContent(msg: Message): boolean {
+    return Boolean(msg && msg.author && (
+        msg.content?.trim() || msg.attachments?.length || msg.embeds?.length
+    ));
+}
+
+/** Replaces `<@id>`, `<#id>`, `<@&id>` and custom emoji tokens with readable names. */
+export function resolveMentions(text: string, msg: Message, context: TranscriptContext): string {
+    const users = new Map((msg.mentions || []).map(user => [user.id, displayName(user)]));
+
+    return text
+        .replace(/<@!?(\d+)>/g, (match, id) => `@${users.get(id) ?? 'unknown-user'}`)
+        .replace(/<@&(\d+)>/g, (match, id) => `@${context.roleNames?.get(id) ?? 'role'}`)
+        .replace(/<#(\d+)>/g, (match, id) => `#${context.channelNames?.get(id) ?? 'unknown-channel'}`)
+        .replace(/<a?(:\w+:)\d+>/g, '$1');
+}
+
+function describeAttachment(attachment: Attachment): string {
+    const details = [attachment.content_type, attachment.description].filter(Boolean).join(', ');
+    return `[attachment: ${attachment.filename}${details ? ` (${details})` : ''}]`;
+}
+
+function describeEmbed(embed: Embed): string | null {
+    const title = embed.title || embed.provider?.name;
+    if (!title && !embed.description && !embed.url) {
+        return null;
+    }
+
+    const description = embed.description
+        ? ` - ${embed.description.replace(/\s+/g, ' ').slice(0, 200)}`
+        : '';
+    return `[link: ${title || embed.url}${description}${embed.url && title ? ` <${embed.url}>` : ''}]`;
+}
+
+function truncate(text: string, length: number): string {
+    const flat = text.replace(/\s+/g, ' ').trim();
+    return flat.length > length ? `${flat.slice(0, length - 1)}…` : flat;
+}
+
+/**
+ * One transcript line for a message, e.g.
+ * `Alice (replying to Bob: "see you at 5"): works for me [attachment: map.png (image/png)]`
+ */
+export function formatMessage(msg: Message, context: TranscriptContext): string {
+    let speaker = displayName(msg.author, msg.member);
+
+    const reply = msg.referenced_message;
+    if (reply?.author) {
+        const snippet = truncate(resolveMentions(reply.content || '', reply, context), REPLY_SNIPPET_LENGTH);
+        speaker += ` (replying to ${displayName(reply.author, reply.member)}${snippet ? `: "${snippet}"` : ''})`;
+    } else if (msg.message_reference?.message_id && msg.type === 19) {
+        speaker += ' (replying to a deleted message)';
+    }
+
+    const parts = [resolveMentions((msg.content || '').trim(), msg, context)];
+    parts.push(...(msg.attachments || []).map(describeAttachment));
+    parts.push(...(msg.embeds || []).map(describeEmbed).filter((embed): embed is string => embed !== null));
+
+    if (msg.reactions?.length) {
+        const reactions = msg.reactions.map(reaction => `${reaction.emoji.name ?? '?'} ${reaction.count}`);
+        parts.push(`[reactions: ${reactions.join(', ')}]`);
+    }
+
+    if (msg.thread) {
+        parts.push(`[started thread "${msg.thread.name}"]`);
+    }
+
+    const line = `${speaker}: ${parts.filter(Boolean).join(' ')}`;
+    const ref = context.citations?.refFor(msg);
+    return ref ? `[${ref}] ${line}` : line;
+}
@@ -0,0 +1,42 @@
+import { APIError } from 'openai';
+import { DiscordApiError } from './discord/http';
+
+/** A failed completion request, wrapping whatever the AI provider's client threw. */
+export class ProviderError extends Error {
+    cause: unknown;
+
+    constructor(cause: unknown) {
+        super(cause instanceof Error ? cause.message : 'Unknown error');
+        this.name = 'ProviderError';
+        this.cause = cause;
+    }
+}
+
+/** Turns an error from a run into a message suitable for a Notice. */
+export function describeError(error: unknown): string {
+    if (error instanceof ProviderError) {
+        return describeError(error.cause);
+    }
+
+    if (error instanceof DiscordApiError) {
+        return error.message;
+    }
+
+    if (error instanceof APIError && error.status) {
+        switch (error.status) {
+            case 401:
+                return 'The AI provider rejected the API key. Please check it in the settings.';
+            case 403:
+                return 'The AI provider denied access to this model.';
+            case 404:
+                return 'The AI model was not found. Please check the model name in the settings.';
+            case 429:
+                return 'The AI provider is rate limiting requests or the quota is used up. Please try again later.';
+        }
+    }
+
+    if (error instanceof Error) {
+        return error.message;
+    }
+    return 'Unknown error';
+}
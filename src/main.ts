@@ -1,266 +1,619 @@
-import { App, Editor, MarkdownView, Modal, Notice, Plugin, PluginSettingTab, Setting, TextComponent, setIcon } from 'obsidian';
-import { Discord } from './discord/discord'
-import { getCompletion } from './ai/openai';
-import { DiscordSummarizerPluginSettings, DEFAULT_SETTINGS} from './settings'
+import { Editor, MarkdownView, Notice, Plugin, TFile } from 'obsidian';
+import { allTemplates } from './ai/prompts';
+import { DiscordSummarizerApi, handleUri, PluginApi } from './api';
+import { tokenBudgetKey } from './ai/provider';
+import { TokenUsage } from './ai/types';
+import { addUsage, costOf, CostEstimate, describeEstimate, resolvePrice } from './ai/usage';
+import { DateUtils } from './discord/dateUtils';
+import { createMessageFilter, describeRemoved } from './discord/filters';
+import { createRedactionOptions } from './discord/redaction';
+import { MessageCache } from './discord/messageCache';
+import { EditorStream } from './output/editorStream';
+import { NoteWriter, SummaryNote } from './output/noteWriter';
+import { TranscriptWriter } from './output/transcriptExporter';
+import { ChannelSummary, SummaryPipeline } from './pipeline';
+import { describeError } from './errors';
+import { RunHooks } from './progress';
+import { RollupBuilder } from './rollup';
+import { DigestScheduler } from './scheduler';
+import { hasSecrets, pickSecrets, SecretSource, SecretStore, withoutSecrets } from './secrets';
+import { ChannelTarget, createChannelTarget, DiscordSummarizerPluginSettings, DEFAULT_SETTINGS} from './settings'
+import { CalendarModal } from './ui/calendarModal';
+import { confirmCost } from './ui/costModal';
+import { openChannelPicker } from './ui/channelPicker';
+import { promptPassphrase } from './ui/passphraseModal';
+import { RollupChannel, RollupModal } from './ui/rollupModal';
+import { RunProgress } from './ui/runProgress';
+import { SettingTab } from './ui/settingTab';
 
 export default class DiscordSummarizerPlugin extends Plugin {
 	settings: DiscordSummarizerPluginSettings;
+	scheduler: DigestScheduler;
+	secrets: SecretStore;
+	// For other plugins and scripts; see DiscordSummarizerApi
+	api: DiscordSummarizerApi;
+	// Secrets found in data.json that haven't been moved into the encrypted store yet
+	private plaintextSecrets = false;
+	// The settings save in progress, if any
+	private pendingSave: Promise<void> = Promise.resolve();
+
+	async getDiscordSummary(editor: Editor | null, target?: ChannelTarget) {
+		if (!await this.unlockSecrets()) {
+			return;
+		}
+
+		if (!target && !this.settings.discordChannelId) {
+			// Nothing configured yet, so let the user choose for this run
+			this.pickChannelAndSummarize(editor);
+			return;
+		}
 
-	async getDiscordSummary(editor: Editor) {
-		const modal = new CalendarModal(this.app, async (startDate: Date, endDate: Date) => {
-			new Notice(`Fetching messages from ${startDate.toLocaleDateString()} to ${endDate.toLocaleDateString()}`);
-			const client = new Discord(this.settings.discordApiBase, this.settings.discordRateLimitDelay);
-			const messages =  await client.getAllMessagesBetweenDates(this.settings.discordChannelId, this.settings.discordToken, startDate, endDate);
-			if (messages.length > 0) {
-				// Concatentate messages to a single string
-				const formattedMessages = await client.formatMessagesForPrompt(messages);
-				// Combine prompt and message string
-				const prompt = client.createPrompt(formattedMessages);
-				// Call OpenAI
-				const result = await getCompletion(prompt, this.settings.openAIKey);
-				// Write to Active Editor
-				if (result) {
-					editor.replaceSelection(result);
+		const channelId = target?.channelId ?? this.settings.discordChannelId;
+		const cursor = this.settings.messageCursors[channelId];
+
+		const modal = new CalendarModal(this.app, (startDate: Date, endDate: Date, templateId: string) => {
+			this.runWithProgress(async (progress, stream) => {
+				const pipeline = this.createPipeline(progress);
+				const result = await pipeline.summarizeChannel(target ?? pipeline.defaultTarget(), startDate, endDate, templateId);
+				if (result.messageCount === 0) {
+					stream?.discard();
+					new Notice(`No messages found between ${startDate.toLocaleString()} and ${endDate.toLocaleString()}.`);
+					return;
 				}
+				progress.onStage('writing');
+				await this.outputSummary(editor, pipeline, result, startDate, endDate, stream);
+			}, editor);
+		}, {
+			maxDays: this.settings.maxRangeDays,
+			templates: allTemplates(this.settings),
+			lastSummaryAt: cursor ? new DateUtils().snowflakeToDate(cursor) : null,
+			onPreview: async (startDate, endDate) => {
+				const pipeline = this.createPipeline();
+				const preview = await pipeline.previewFilter(target ?? pipeline.defaultTarget(), startDate, endDate);
+				const removed = describeRemoved(preview.removed);
+				return `${preview.total} messages fetched, ${preview.messages.length} left after filtering${removed ? `. Removed by rule: ${removed}` : ''}. `
+					+ `Estimate without threads: ${describeEstimate(preview.estimate)}.`;
+			},
+		});
+		modal.open()
+	}
+
+	async summarizeSinceLastRun(editor: Editor | null) {
+		if (!await this.unlockSecrets()) {
+			return;
+		}
+
+		const target = this.createPipeline().defaultTarget();
+		if (!target.channelId) {
+			new Notice('Enter a Discord channel id in the settings first.');
+			return;
+		}
+
+		const cursor = this.settings.messageCursors[target.channelId];
+		if (!cursor) {
+			new Notice('This channel has not been summarized yet. Choose a date range to start from.');
+			this.getDiscordSummary(editor, target);
+			return;
+		}
+
+		await this.runWithProgress(async (progress, stream) => {
+			const pipeline = this.createPipeline(progress);
+			const result = await pipeline.summarizeSince(target, cursor);
+			if (result.messageCount === 0) {
+				stream?.discard();
+				new Notice('No new messages since the last summary.');
+				return;
+			}
+
+			const dateUtils = new DateUtils();
+			const startDate = dateUtils.snowflakeToDate(cursor) ?? new Date();
+			const endDate = result.truncated && result.newestMessageId ? dateUtils.snowflakeToDate(result.newestMessageId) ?? new Date() : new Date();
+			progress.onStage('writing');
+			await this.outputSummary(editor, pipeline, result, startDate, endDate, stream);
+			if (result.truncated) {
+				new Notice(`Only the messages up to ${endDate.toLocaleString()} were summarized, as there were too many to fetch at once. Run the command again to continue from there.`, 10000);
+			}
+		}, editor);
+	}
+
+	/**
+	 * Runs a summary with a progress indicator in the status bar, turning
+	 * failures into notices instead of unhandled rejections. When the summary
+	 * goes to `editor`, it is streamed there as it is generated, and whatever
+	 * was written is kept and marked as incomplete if the run fails. The
+	 * selection is only replaced once there is text to replace it with.
+	 */
+	async runWithProgress(run: (progress: RunProgress, stream: EditorStream | null) => Promise<void>, editor: Editor | null = null) {
+		const progress = new RunProgress(this);
+		progress.confirmEstimate = this.estimateConfirmation(progress);
+		let stream: EditorStream | null = null;
+		if (editor && this.settings.outputMode === 'cursor' && this.settings.streamOutput) {
+			stream = new EditorStream(editor);
+			progress.onToken = stream.append;
+		}
+
+		try {
+			await run(progress, stream);
+		} catch (error) {
+			if (progress.cancelled) {
+				stream?.markIncomplete('Cancelled before the summary was finished.');
+				new Notice('Discord summary cancelled.');
+				return;
 			}
-			
+			stream?.markIncomplete(`Generation failed: ${describeError(error)}`);
+			console.error('Discord summary failed:', error);
+			new Notice(`Discord summary failed: ${describeError(error)}`, 10000);
+		} finally {
+			stream?.close();
+			progress.finish();
+		}
+	}
+
+	/**
+	 * Shows each channel's estimate in the status bar, and asks once per run
+	 * when the projected total crosses the cost threshold.
+	 */
+	estimateConfirmation(progress: RunProgress): (estimate: CostEstimate) => Promise<boolean> {
+		let confirmed = false;
+		return async (estimate) => {
+			const total = progress.addEstimate(estimate);
+			const threshold = this.settings.confirmCostAbove;
+			// Models without a known price can't be compared against the threshold
+			if (confirmed || threshold <= 0 || total.cost === null || total.cost <= threshold) {
+				return true;
+			}
+
+			confirmed = await confirmCost(this.app, total, threshold);
+			if (!confirmed) {
+				progress.cancel();
+			}
+			return confirmed;
+		};
+	}
+
+	/** Adds the tokens of a completion to the run's usage record for its channel. */
+	async recordUsage(runStartedAt: string, usage: TokenUsage, target: ChannelTarget | null) {
+		this.settings.usageRecords = addUsage(this.settings.usageRecords, {
+			date: runStartedAt,
+			channelId: target?.channelId ?? '',
+			label: target?.label ?? '',
+			model: tokenBudgetKey(this.settings),
+			...usage,
+			cost: costOf(usage, resolvePrice(this.settings)),
+		});
+		await this.saveSettings();
+	}
+
+	private async outputSummary(
+		editor: Editor | null,
+		pipeline: SummaryPipeline,
+		result: ChannelSummary,
+		startDate: Date,
+		endDate: Date,
+		stream: EditorStream | null = null
+	) {
+		if (!result.summary) {
+			stream?.discard();
+			return;
+		}
+
+		if (stream) {
+			// Swap the raw stream for the finished summary, with citations linked and thread sections added
+			stream.finish(result.summary);
+		} else if (editor && this.settings.outputMode === 'cursor') {
+			// Write to Active Editor
+			editor.replaceSelection(result.summary);
+		} else {
+			await this.writeNote(await pipeline.toNote(result, startDate, endDate));
+		}
+		await this.recordCursor(result);
+	}
+
+	/** Remembers the newest summarized message so the next incremental run starts after it. */
+	async recordCursor(result: ChannelSummary) {
+		const channelId = result.target.channelId;
+		const current = this.settings.messageCursors[channelId];
+		if (!result.newestMessageId || (current && BigInt(current) >= BigInt(result.newestMessageId))) {
+			return;
+		}
+
+		this.settings.messageCursors[channelId] = result.newestMessageId;
+		await this.saveSettings();
+	}
+
+	async pickChannelAndSummarize(editor: Editor | null) {
+		if (!await this.unlockSecrets()) {
+			return;
+		}
+
+		await openChannelPicker(this.app, this.settings, ({ guild, channel }) => {
+			this.getDiscordSummary(editor, createChannelTarget({ serverId: guild.id, channelId: channel.id }));
 		});
+	}
+
+	async getDiscordDigest(editor: Editor | null) {
+		if (!await this.unlockSecrets()) {
+			return;
+		}
+
+		const targets = this.settings.channelTargets.filter(target => target.channelId);
+		if (targets.length === 0) {
+			new Notice('Add at least one channel under "Digest channels" in the settings.');
+			return;
+		}
+
+		const modal = new CalendarModal(this.app, (startDate: Date, endDate: Date) => this.runWithProgress(async (progress, stream) => {
+			const pipeline = this.createPipeline(progress);
+			const digest = await pipeline.createDigest(targets, startDate, endDate);
+			if (digest.messageCount === 0) {
+				stream?.discard();
+				new Notice(`No messages found in any channel between ${startDate.toLocaleString()} and ${endDate.toLocaleString()}.`);
+				return;
+			}
+			progress.onStage('writing');
+
+			if (stream) {
+				stream.finish(digest.content);
+			} else if (editor && this.settings.outputMode === 'cursor') {
+				editor.replaceSelection(digest.content);
+			} else {
+				await this.writeNote({
+					server: 'Digests',
+					channel: 'Digest',
+					serverId: '',
+					channelId: '',
+					start: startDate,
+					end: endDate,
+					messageCount: digest.messageCount,
+					model: pipeline.model,
+					content: digest.content,
+				});
+			}
+
+			for (const section of digest.sections) {
+				await this.recordCursor(section);
+			}
+		}, editor), { maxDays: this.settings.maxRangeDays });
 		modal.open()
 	}
+
+	/** Writes a channel's messages in a range to the vault as they are, without the AI provider. */
+	async exportTranscript(target?: ChannelTarget) {
+		if (!await this.unlockSecrets()) {
+			return;
+		}
+
+		if (!target && !this.settings.discordChannelId) {
+			await openChannelPicker(this.app, this.settings, ({ guild, channel }) => {
+				this.exportTranscript(createChannelTarget({ serverId: guild.id, channelId: channel.id }));
+			});
+			return;
+		}
+
+		const modal = new CalendarModal(this.app, (startDate, endDate, templateId, format) => this.runWithProgress(async (progress) => {
+			const pipeline = this.createPipeline(progress);
+			const transcript = await pipeline.fetchTranscript(target ?? pipeline.defaultTarget(), startDate, endDate);
+			if (transcript.messages.length === 0) {
+				new Notice(`No messages found between ${startDate.toLocaleString()} and ${endDate.toLocaleString()}.`);
+				return;
+			}
+
+			progress.onStage('writing');
+			const file = await new TranscriptWriter(this.app, this.settings).write(transcript, format);
+			// JSON and CSV files can't be opened in an editor tab
+			if (format === 'markdown') {
+				await this.app.workspace.getLeaf(false).openFile(file);
+			}
+			new Notice(`Transcript written to ${file.path}`);
+		}), { maxDays: this.settings.maxRangeDays, formats: true });
+		modal.open()
+	}
+
+	/**
+	 * Summarizes a week from the channel's daily summary notes, or a month
+	 * from its weekly ones, generating the missing ones first. Rollups are
+	 * always written to notes, so monthly rollups can build on weekly ones.
+	 */
+	async createRollup() {
+		if (!await this.unlockSecrets()) {
+			return;
+		}
+
+		if (this.settings.redaction.pseudonymize) {
+			// Checked up front too, so no missing days are summarized for nothing
+			new Notice('Rollups aren\'t available while "Pseudonymize people" is on: the summary notes they are built from hold real names, or pseudonyms that differ from note to note.', 10000);
+			return;
+		}
+
+		const channels: RollupChannel[] = this.settings.channelTargets
+			.filter(target => target.channelId && target.channelId !== this.settings.discordChannelId)
+			.map(target => ({ name: target.label || `Channel ${target.channelId}`, target }));
+		if (this.settings.discordChannelId) {
+			channels.unshift({ name: 'Default channel', target: this.createPipeline().defaultTarget() });
+		}
+		if (channels.length === 0) {
+			new Notice('Enter a Discord channel id or add digest channels in the settings first.');
+			return;
+		}
+
+		new RollupModal(this.app, channels, (target, level, period) => this.runWithProgress(async (progress) => {
+			const builder = new RollupBuilder(this, this.createPipeline(progress), progress);
+			const rollup = await builder.build(target, level, period);
+			if (!rollup) {
+				new Notice(`No messages found between ${period.start.toLocaleString()} and ${period.end.toLocaleString()}.`);
+				return;
+			}
+
+			await this.app.workspace.getLeaf(false).openFile(rollup.file);
+			const generated = builder.generated > 0 ? `, after generating ${builder.generated} missing summaries` : '';
+			new Notice(`Rollup written to ${rollup.file.path}${generated}`);
+		})).open();
+	}
+
+	createPipeline(hooks: RunHooks = {}): SummaryPipeline {
+		// Each pipeline is one run, so its completions are recorded together
+		const startedAt = new Date().toISOString();
+		return new SummaryPipeline(this.settings, this.createMessageCache(), hooks, (usage, target) => {
+			this.recordUsage(startedAt, usage, target).catch((error) => {
+				console.error('Failed to record token usage:', error);
+				new Notice(`Discord summarizer: could not record token usage: ${describeError(error)}`);
+			});
+		});
+	}
+
+	createMessageCache(): MessageCache | null {
+		if (!this.settings.cacheEnabled) {
+			return null;
+		}
+		return new MessageCache(this.app.vault.adapter, `${this.manifest.dir}/cache`, {
+			retentionDays: this.settings.cacheRetentionDays,
+			maxMessagesPerChannel: this.settings.cacheMaxMessagesPerChannel,
+		});
+	}
+
+	async writeNote(note: SummaryNote): Promise<TFile> {
+		const file = await new NoteWriter(this.app, this.settings).write(note);
+		await this.app.workspace.getLeaf(false).openFile(file);
+		new Notice(`Summary written to ${file.path}`);
+		return file;
+	}
+
+	private activeEditor(): Editor | null {
+		return this.app.workspace.getActiveViewOfType(MarkdownView)?.editor ?? null;
+	}
+
 	async onload() {
 		await this.loadSettings();
 
 		const ribbonIconEl = this.addRibbonIcon('gamepad-2', 'Discord summarizer', (evt: MouseEvent) => {
-			// Called when the user clicks the icon.
-			const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
-			if (activeView) {
-				const editor = activeView.editor;
-				this.getDiscordSummary(editor);
-			}
+			// Called when the user clicks the icon. Without an open note the summary goes to its own note
+			this.getDiscordSummary(this.activeEditor());
 		});
 
-		// This adds an editor command that can perform some operation on the current editor instance
 		this.addCommand({
 			id: 'get-discord-summary',
 			name: 'Get summary of Discord channel',
 
-			editorCallback: async (editor: Editor, view: MarkdownView) => {
-				this.getDiscordSummary(editor)
+			callback: async () => {
+				this.getDiscordSummary(this.activeEditor())
+			}
+		});
+
+		this.addCommand({
+			id: 'summarize-since-last-run',
+			name: 'Summarize new messages since the last summary',
+
+			callback: async () => {
+				this.summarizeSinceLastRun(this.activeEditor())
 			}
 		});
 
+		this.addCommand({
+			id: 'pick-channel-and-summarize',
+			name: 'Pick a Discord channel and get its summary',
+
+			callback: async () => {
+				this.pickChannelAndSummarize(this.activeEditor())
+			}
+		});
+
+		this.addCommand({
+			id: 'get-discord-digest',
+			name: 'Get digest of configured Discord channels',
+
+			callback: async () => {
+				this.getDiscordDigest(this.activeEditor())
+			}
+		});
+
+		this.addCommand({
+			id: 'export-discord-transcript',
+			name: 'Export transcript of Discord channel',
+
+			callback: async () => {
+				this.exportTranscript()
+			}
+		});
+
+		this.addCommand({
+			id: 'create-summary-rollup',
+			name: 'Create weekly or monthly rollup of Discord summaries',
+
+			callback: async () => {
+				this.createRollup()
+			}
+		});
+
+		this.api = new PluginApi(this);
+		this.registerObsidianProtocolHandler('discord-summarizer', params => handleUri(this, params));
+
+		if (this.plaintextSecrets) {
+			this.app.workspace.onLayoutReady(() => this.migratePlaintextSecrets());
+		}
+
+		// Runs scheduled summaries in the background and catches up on missed periods
+		this.scheduler = new DigestScheduler(this);
+		this.scheduler.start();
+
 		// This adds a settings tab so the user can configure various aspects of the plugin
 		this.addSettingTab(new SettingTab(this.app, this));
 	}
 
 
 	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+		this.settings = Object.assign({}, structuredClone(DEFAULT_SETTINGS), await this.loadData());
+		// Fill in fields added to channel targets since they were saved
+		this.settings.channelTargets = this.settings.channelTargets.map(target => createChannelTarget(target));
+		this.settings.messageFilter = createMessageFilter(this.settings.messageFilter);
+		this.settings.redaction = createRedactionOptions(this.settings.redaction);
+		this.migrateChannelPrompts();
+
+		// Namespaced by vault, since local storage is shared by all vaults on the device
+		this.secrets = new SecretStore(`${this.manifest.id}-secrets:${this.app.vault.getName()}`);
+		this.plaintextSecrets = this.settings.secretSource === 'encrypted' && hasSecrets(pickSecrets(this.settings));
+		await this.loadSecrets();
 	}
 
-	async saveSettings() {
-		await this.saveData(this.settings);
+	/** Channel targets used to hold a free-form prompt; turn those into custom templates. */
+	private migrateChannelPrompts() {
+		for (const target of this.settings.channelTargets as (ChannelTarget & { prompt?: string })[]) {
+			if (target.prompt?.trim()) {
+				const id = `channel-${target.channelId || Date.now()}`;
+				this.settings.promptTemplates.push({
+					id,
+					name: target.label || `Channel ${target.channelId}`,
+					body: `${target.prompt.trim()}\n\n{{messages}}`,
+				});
+				target.templateId = id;
+			}
+			delete target.prompt;
+		}
 	}
-	
-}
 
-/**
- * Obsidian Plugin: Calendar Modal
- * This plugin opens a modal with two calendar controls
- * and prints the selected start and end dates to the active note.
- */
-
-class CalendarModal extends Modal {
-    private onSelectDates: (startDate: Date, endDate: Date) => void;
-
-    constructor(app: App, onSelectDates: (startDate: Date, endDate: Date) => void) {
-        super(app);
-        this.onSelectDates = onSelectDates;
-    }
-
-    onOpen(): void {
-        const { contentEl } = this;
-
-        // Add a title to the modal
-        contentEl.createEl('h2', {
-            text: 'Select date range',
-            cls: 'calendar-modal-title',
-        });
-
-        // Add a wrapper for the calendar controls
-        const wrapper = contentEl.createEl('div', {
-            cls: 'calendar-modal-wrapper',
-        });
-
-        // Create a calendar control for the start date
-        const startDateContainer = wrapper.createEl('div', {
-            cls: 'calendar-modal-date-container',
-        });
-
-		const today = new Date().toISOString().split('T')[0];
-
-        startDateContainer.createEl('label', {
-            text: 'Start date',
-            cls: 'calendar-modal-label',
-        });
-        const startDatePicker = startDateContainer.createEl('input', {
-            type: 'date',
-            cls: 'calendar-modal-input',
-			attr: { max: today },
-        });
-
-        // Create a calendar control for the end date
-        const endDateContainer = wrapper.createEl('div', {
-            cls: 'calendar-modal-date-container',
-        });
-        endDateContainer.createEl('label', {
-            text: 'End date',
-            cls: 'calendar-modal-label',
-        });
-        const endDatePicker = endDateContainer.createEl('input', {
-            type: 'date',
-            cls: 'calendar-modal-input',
-			attr: { max: today },
-        });
-
-        // Add a confirm button
-        const buttonContainer = contentEl.createEl('div', {
-            cls: 'calendar-modal-button-container',
-        });
-        const confirmButton = buttonContainer.createEl('button', {
-            text: 'Confirm',
-            cls: 'calendar-modal-button',
-        });
-		confirmButton.addEventListener('click', () => {
-            const startDate = startDatePicker.value;
-            const endDate = endDatePicker.value;
-
-            if (!startDate || !endDate) {
-                new Notice('Please select both a start and an end date.');
-                return;
-            }
-
-            const start = new Date(startDate);
-            const end = new Date(endDate);
-            const timeSpan = (end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24);
-
-            if (timeSpan < 0) {
-                new Notice('End date must be after start date.');
-                return;
-            }
-
-            if (timeSpan > 7) {
-                new Notice('Please select a time span of 7 days or less.');
-                return;
-            }
-
-            this.onSelectDates(start, end);
-            this.close();
-        });
-
-        // Add some instructions
-		contentEl.createEl('p', {
-			text: 'Select a start and end date from the calendars above, ensuring the range is 7 days or less, then click "Confirm". Future dates are disabled.',
-			cls: 'calendar-modal-instructions',
+	/** Loads the secrets from the configured source into the settings, which only keep them in memory. */
+	async loadSecrets() {
+		if (this.plaintextSecrets) {
+			return;
+		}
+
+		try {
+			switch (this.settings.secretSource) {
+				case 'encrypted':
+					Object.assign(this.settings, (await this.secrets.load()) ?? pickSecrets({}));
+					break;
+				case 'environment':
+					Object.assign(this.settings, this.secrets.loadEnvironment());
+					break;
+				case 'file':
+					Object.assign(this.settings, await this.secrets.loadFile(this.settings.secretFilePath));
+					break;
+			}
+		} catch (error) {
+			console.error('Failed to load secrets:', error);
+			new Notice(`Discord summarizer: ${describeError(error)}`);
+		}
+	}
+
+	/**
+	 * Switches where the secrets come from. Plaintext secrets left in data.json
+	 * by an earlier version only matter to the encrypted store's migration, so
+	 * any other source drops them from the file and reads its own.
+	 */
+	async setSecretSource(source: SecretSource) {
+		this.settings.secretSource = source;
+		if (source !== 'encrypted') {
+			this.plaintextSecrets = false;
+		}
+		await this.loadSecrets();
+		await this.saveSettings();
+	}
+
+	get secretsLocked(): boolean {
+		return this.settings.secretSource === 'encrypted' && this.secrets.locked;
+	}
+
+	/** Asks for the passphrase when the secrets are encrypted and haven't been unlocked this session. */
+	async unlockSecrets(): Promise<boolean> {
+		if (!this.secretsLocked) {
+			return true;
+		}
+
+		const passphrase = await promptPassphrase(this.app, {
+			title: 'Unlock Discord summarizer',
+			description: 'Enter the passphrase that protects your Discord token and API keys.',
 		});
-    }
+		if (passphrase === null) {
+			return false;
+		}
 
-    onClose(): void {
-        const { contentEl } = this;
-        contentEl.empty();
-    }
+		try {
+			Object.assign(this.settings, await this.secrets.unlock(passphrase));
+			return true;
+		} catch (error) {
+			new Notice(describeError(error));
+			return false;
+		}
+	}
 
-}
+	/** Moves secrets saved in plaintext by earlier versions into the encrypted store and scrubs data.json. */
+	async migratePlaintextSecrets(): Promise<boolean> {
+		const passphrase = await promptPassphrase(this.app, {
+			title: 'Protect your Discord summarizer secrets',
+			description: 'Your Discord token and API keys are saved in plaintext in data.json. Choose a passphrase to encrypt them on this device and remove them from data.json.',
+			confirm: true,
+		});
+		if (passphrase === null) {
+			new Notice('Your secrets stay in data.json until you set a passphrase under "Secret storage" in the settings.', 10000);
+			return false;
+		}
 
+		// Only scrub data.json once the encrypted copy is known to be readable
+		try {
+			const secrets = pickSecrets(this.settings);
+			await this.secrets.setPassphrase(passphrase);
+			if (!await this.secrets.save(secrets) || JSON.stringify(await this.secrets.load()) !== JSON.stringify(secrets)) {
+				throw new Error('The encrypted secrets could not be read back.');
+			}
+			await this.saveData(withoutSecrets(this.settings));
+		} catch (error) {
+			console.error('Failed to encrypt secrets:', error);
+			new Notice(`Your secrets stay in data.json: ${describeError(error)}`, 10000);
+			return false;
+		}
 
-class SettingTab extends PluginSettingTab {
-	plugin: DiscordSummarizerPlugin;
+		this.plaintextSecrets = false;
+		new Notice('Secrets moved out of data.json.');
+		return true;
+	}
 
-	constructor(app: App, plugin: DiscordSummarizerPlugin) {
-		super(app, plugin);
-		this.plugin = plugin;
+	/** Saves one after another, since runs record their usage while other settings are being saved. */
+	saveSettings(): Promise<void> {
+		const save = this.pendingSave.then(() => this.writeSettings());
+		this.pendingSave = save.catch(() => {});
+		return save;
 	}
 
-	display(): void {
-		const {containerEl} = this;
-
-		containerEl.empty();
-
-		new Setting(containerEl)
-			.setName('Discord channel id')
-			.setDesc('ID of Discord channel to summarize')
-			.addText(text => text
-				.setPlaceholder('Enter channel ID')
-				.setValue(this.plugin.settings.discordChannelId)
-				.onChange(async (value) => {
-					this.plugin.settings.discordChannelId = value;
-					await this.plugin.saveSettings();
-				}));
-
-		new Setting(containerEl)
-			.setName('Discord server id')
-			.setDesc('ID of Discord server')
-			.addText(text => text
-				.setPlaceholder('Enter server ID')
-				.setValue(this.plugin.settings.discordServerId)
-				.onChange(async (value) => {
-					this.plugin.settings.discordServerId = value;
-					await this.plugin.saveSettings();
-				}));
-
-		new Setting(containerEl)
-			.setName('Discord token')
-			.setDesc('Authentication token for discord')
-			.addText(text => { 
-				wrapTextWithPasswordHide(text); 
-				text
-				.setPlaceholder('Enter Discord token')
-				.setValue(this.plugin.settings.discordToken)
-				.onChange(async (value) => {
-					this.plugin.settings.discordToken = value;
-					await this.plugin.saveSettings();
-				});
-				text.inputEl.addClass('settings-long-input');
-			});
+	private async writeSettings() {
+		if (this.plaintextSecrets) {
+			// Not migrated yet; keep them where they are rather than lose them
+			await this.saveData(this.settings);
+			return;
+		}
 
-		new Setting(containerEl)
-			.setName('OpenAI key')
-			.setDesc('Authentication key for OpenAI')
-			.addText(text => { 
-				wrapTextWithPasswordHide(text);
-				text
-				.setPlaceholder('Enter OpenAI key')
-				.setValue(this.plugin.settings.openAIKey)
-				.onChange(async (value) => {
-					this.plugin.settings.openAIKey = value;
-					await this.plugin.saveSettings();
-				});
-				text.inputEl.addClass('settings-long-input');
-			});
+		// Encrypt first, so a failure leaves the previous data.json alone
+		if (this.settings.secretSource === 'encrypted') {
+			await this.secrets.save(pickSecrets(this.settings));
+		}
+		await this.saveData(withoutSecrets(this.settings));
 	}
-}
 
-const wrapTextWithPasswordHide = (text: TextComponent) => {
-	const hider = text.inputEl.insertAdjacentElement(
-		"beforebegin",
-		createSpan()
-	);
-	if (!hider) {
-		return;
+	/** Whether secrets are set but only kept in memory, because no passphrase has been set. */
+	get secretsUnsaved(): boolean {
+		return this.settings.secretSource === 'encrypted' && !this.plaintextSecrets
+			&& !this.secrets.unlocked && hasSecrets(pickSecrets(this.settings));
 	}
-	setIcon(hider as HTMLElement, "eye-off");
 
-	hider.addEventListener("click", () => {
-		const isText = text.inputEl.getAttribute("type") === "text";
-		if (isText) {
-			setIcon(hider as HTMLElement, "eye-off");
-			text.inputEl.setAttribute("type", "password");
-		} else {
-			setIcon(hider as HTMLElement, "eye");
-			text.inputEl.setAttribute("type", "text");
-		}
-		text.inputEl.focus();
-	});
-	text.inputEl.setAttribute("type", "password");
-	return text;
-};
\ No newline at end of file
+	get hasPlaintextSecrets(): boolean {
+		return this.plaintextSecrets;
+	}
+}
@@ -0,0 +1,49 @@
+import { App, normalizePath, TFile } from 'obsidian';
+import { DateUtils } from '../discord/dateUtils';
+import { MessageCache } from '../discord/messageCache';
+import { displayName } from '../discord/transcript';
+
+export type ArchiveFormat = 'markdown' | 'jsonl';
+
+/**
+ * Writes a channel's cached messages into the vault, for record-keeping
+ * independent of the summaries.
+ */
+export class ArchiveExporter {
+    private app: App;
+    private cache: MessageCache;
+    private folder: string;
+
+    constructor(app: App, cache: MessageCache, folder: string) {
+        this.app = app;
+        this.cache = cache;
+        this.folder = normalizePath(folder);
+    }
+
+    async export(channelId: string, name: string, format: ArchiveFormat): Promise<TFile> {
+        const messages = this.cache.allMessages(await this.cache.load(channelId));
+        const dateUtils = new DateUtils();
+
+        const content = format === 'jsonl'
+            ? messages.map(msg => JSON.stringify(msg)).join('\n') + '\n'
+            : [
+                `# Discord archive: ${name}`,
+                '',
+                ...messages.map(msg =>
+                    `- \`${dateUtils.formatDate(msg.timestamp)}\` **${msg.author ? displayName(msg.author, msg.member) : 'Unknown'}**: ${(msg.content || '').replace(/\n/g, ' ')}`),
+                '',
+            ].join('\n');
+
+        const path = normalizePath(`${this.folder}/${channelId}.${format === 'jsonl' ? 'jsonl' : 'md'}`);
+        if (!this.app.vault.getFolderByPath(this.folder)) {
+            await this.app.vault.createFolder(this.folder);
+        }
+
+        const existing = this.app.vault.getFileByPath(path);
+        if (existing) {
+            await this.app.vault.modify(existing, content);
+            return existing;
+        }
+        return this.app.vault.create(path, content);
+    }
+}
@@ -0,0 +1,99 @@
+import { Compartment, StateEffect } from '@codemirror/state';
+import { EditorView, ViewUpdate } from '@codemirror/view';
+import { Editor } from 'obsidian';
+
+/**
+ * Writes streamed text into the editor at the position the cursor had when
+ * the run started, replacing the selection once the first text arrives. The
+ * written region follows the user's edits, so they can keep moving the
+ * cursor and editing elsewhere in the note.
+ */
+export class EditorStream {
+    private editor: Editor;
+    // The region written so far; the selection until the first text arrives
+    private from: number;
+    private to: number;
+    // Put back when the run ends without writing anything
+    private selection: string;
+    private started = false;
+    // Obsidian's editor is CodeMirror underneath; its changes are what keep the region in place
+    private view: EditorView | null;
+    private listener = new Compartment();
+    // Set while the stream itself edits, so its own changes aren't mapped twice
+    private writing = false;
+
+    constructor(editor: Editor) {
+        this.editor = editor;
+        this.from = editor.posToOffset(editor.getCursor('from'));
+        this.to = editor.posToOffset(editor.getCursor('to'));
+        this.selection = editor.getSelection();
+
+        this.view = (editor as Editor & { cm?: EditorView }).cm ?? null;
+        this.view?.dispatch({
+            effects: StateEffect.appendConfig.of(this.listener.of(EditorView.updateListener.of(update => this.follow(update)))),
+        });
+    }
+
+    append = (delta: string): void => {
+        this.write(delta, this.started ? this.to : this.from, this.to);
+        this.started = true;
+    };
+
+    /** Replaces the streamed text, or the selection when nothing was streamed, with the finished summary. */
+    finish(content: string): void {
+        this.write(content, this.from, this.to);
+        this.started = true;
+    }
+
+    /** Keeps what was written so far and marks it as incomplete; leaves the selection alone when nothing was. */
+    markIncomplete(reason: string): void {
+        if (!this.started) {
+            return;
+        }
+        this.write(`\n\n> [!warning] Incomplete summary\n> ${reason}\n`, this.to, this.to);
+    }
+
+    /** Puts the selection back in place of the streamed text, e.g. when there turned out to be nothing to summarize. */
+    discard(): void {
+        if (!this.started) {
+            return;
+        }
+        this.write(this.selection, this.from, this.to);
+        this.started = false;
+    }
+
+    /** Stops following the user's edits; call once the run is over. */
+    close(): void {
+        try {
+            this.view?.dispatch({ effects: this.listener.reconfigure([]) });
+        } catch (error) {
+            // The note was closed during the run, and its editor with it
+        }
+        this.view = null;
+    }
+
+    /** Replaces [from, to] with `text` and makes the region cover everything written from `from` on. */
+    private write(text: string, from: number, to: number): void {
+        const length = this.editor.getValue().length;
+        const start = Math.min(this.from, length);
+        const replaceFrom = Math.min(from, length);
+        this.writing = true;
+        try {
+            this.editor.replaceRange(text, this.editor.offsetToPos(replaceFrom), this.editor.offsetToPos(Math.min(to, length)));
+        } finally {
+            this.writing = false;
+        }
+        this.from = start;
+        this.to = replaceFrom + text.length;
+    }
+
+    /** Moves the region along with the user's edits before and around it. */
+    private follow(update: ViewUpdate): void {
+        if (!update.docChanged || this.writing) {
+            return;
+        }
+        // Text typed right at either edge stays outside the region
+        this.from = update.changes.mapPos(this.from, 1);
+        this.to = Math.max(this.from, update.changes.mapPos(this.to, -1));
+    }
+}
@@ -0,0 +1,59 @@
+import { Extraction } from '../ai/extraction';
+
+/** Resolves a message reference to its URL in Discord, or null when it isn't one of the summarized messages. */
+export type SourceLinker = (ref: string) => string | null;
+
+function sourceSuffix(ref: string, sourceLink: SourceLinker): string {
+    const url = sourceLink(ref);
+    return url ? ` ([source](${url}))` : ` (\`${ref}?\` unverified source)`;
+}
+
+function callout(type: string, title: string, lines: string[]): string {
+    return [`> [!${type}] ${title}`, ...lines.map(line => `> ${line}`)].join('\n');
+}
+
+/**
+ * Renders an extraction as Obsidian Markdown: action items as tasks,
+ * decisions and open questions as callouts, and links and entities as lists.
+ */
+export function renderExtraction(extraction: Extraction, sourceLink: SourceLinker): string {
+    const sections: string[] = [];
+
+    if (extraction.actionItems.length > 0) {
+        sections.push([
+            '#### Action items',
+            ...extraction.actionItems.map(item => {
+                const details = [item.owner && `owner: ${item.owner}`, item.due && `due: ${item.due}`].filter(Boolean);
+                return `- [ ] ${item.text}${details.length ? ` (${details.join(', ')})` : ''}${sourceSuffix(item.source, sourceLink)}`;
+            }),
+        ].join('\n'));
+    }
+
+    if (extraction.decisions.length > 0) {
+        sections.push(callout('success', 'Decisions', extraction.decisions.map(item =>
+            `- ${item.text}${sourceSuffix(item.source, sourceLink)}`)));
+    }
+
+    if (extraction.questions.length > 0) {
+        sections.push(callout('question', 'Open questions', extraction.questions.map(item =>
+            `- ${item.text}${sourceSuffix(item.source, sourceLink)}`)));
+    }
+
+    if (extraction.links.length > 0) {
+        sections.push([
+            '#### Links',
+            ...extraction.links.map(link =>
+                `- [${(link.title || link.url).replace(/[[\]]/g, '')}](${link.url})${sourceSuffix(link.source, sourceLink)}`),
+        ].join('\n'));
+    }
+
+    if (extraction.entities.length > 0) {
+        sections.push([
+            '#### Mentioned',
+            ...extraction.entities.map(entity =>
+                `- **${entity.name}**${entity.kind ? ` (${entity.kind})` : ''}${sourceSuffix(entity.source, sourceLink)}`),
+        ].join('\n'));
+    }
+
+    return sections.length > 0 ? sections.join('\n\n') : '_Nothing to extract from this period._';
+}
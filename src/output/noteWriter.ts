@@ -0,0 +1,151 @@
+import { App, normalizePath, TFile } from 'obsidian';
+import { DateUtils } from '../discord/dateUtils';
+import type { RollupLevel } from '../rollup';
+import { DiscordSummarizerPluginSettings } from '../settings';
+
+export interface SummaryNote {
+    server: string;
+    channel: string;
+    serverId: string;
+    channelId: string;
+    start: Date;
+    end: Date;
+    messageCount: number;
+    model: string;
+    content: string;
+    // Set on summaries written from other summary notes rather than from messages
+    rollup?: RollupLevel;
+    sourceCount?: number;
+    // A rollup of a period that hadn't ended, which later rollups don't build on
+    partial?: boolean;
+}
+
+// Characters that are not allowed in file names on at least one platform, plus the ones Obsidian reserves for links
+const ILLEGAL_PATH_CHARS = /[\\/:*?"<>|#^[\]]/g;
+
+function sanitizeSegment(value: string): string {
+    return value.replace(ILLEGAL_PATH_CHARS, '-').trim() || 'Untitled';
+}
+
+function toDay(date: Date): string {
+    return new DateUtils().dateToLocalString(date).split('T')[0];
+}
+
+/** A frontmatter block, closing line included, for the given properties. */
+export function renderFrontmatter(properties: Record<string, string | number | boolean>): string {
+    // JSON strings are valid double-quoted YAML scalars
+    const yaml = Object.entries(properties)
+        .map(([key, value]) => `${key}: ${typeof value === 'string' ? JSON.stringify(value) : value}`)
+        .join('\n');
+    return `---\n${yaml}\n---`;
+}
+
+// What a note's path can be built from
+export type NoteLocation = Pick<SummaryNote, 'server' | 'channel' | 'serverId' | 'channelId' | 'start' | 'end'>;
+
+/** Fills in a path template such as `Discord/{{server}}/{{channel}}/{{start}}–{{end}}`, adding `extension` when missing. */
+export function resolveNotePath(template: string, note: NoteLocation, extension = 'md'): string {
+    const variables: Record<string, string> = {
+        server: note.server,
+        channel: note.channel,
+        server_id: note.serverId,
+        channel_id: note.channelId,
+        start: toDay(note.start),
+        end: toDay(note.end),
+    };
+
+    // Substitute per path segment so a value containing "/" cannot create extra folders
+    const path = template
+        .split('/')
+        .map(segment => segment.replace(/\{\{(\w+)\}\}/g, (match, name) =>
+            Object.prototype.hasOwnProperty.call(variables, name) ? sanitizeSegment(variables[name]) : match))
+        .join('/');
+
+    return normalizePath(path.endsWith(`.${extension}`) ? path : `${path}.${extension}`);
+}
+
+/**
+ * Writes summaries to their own notes, at a path built from
+ * `notePathTemplate`, with the run's metadata in the frontmatter.
+ */
+export class NoteWriter {
+    private app: App;
+    private settings: DiscordSummarizerPluginSettings;
+
+    constructor(app: App, settings: DiscordSummarizerPluginSettings) {
+        this.app = app;
+        this.settings = settings;
+    }
+
+    /** Rollups get their own file name, so they don't land on a summary of the same week or month. */
+    resolvePath(note: SummaryNote): string {
+        const path = resolveNotePath(this.settings.notePathTemplate, note);
+        return note.rollup ? path.replace(/\.md$/, ` (${note.rollup} rollup).md`) : path;
+    }
+
+    async write(note: SummaryNote): Promise<TFile> {
+        const path = this.resolvePath(note);
+        const existing = this.app.vault.getFileByPath(path);
+
+        if (!existing) {
+            return this.create(path, note);
+        }
+
+        switch (this.settings.noteExistsBehavior) {
+            case 'append':
+                await this.app.vault.append(existing, `\n\n${note.content}`);
+                await this.app.fileManager.processFrontMatter(existing, frontmatter => {
+                    frontmatter.message_count = (Number(frontmatter.message_count) || 0) + note.messageCount;
+                    frontmatter.generated_at = new Date().toISOString();
+                });
+                return existing;
+            case 'version':
+                return this.create(this.nextVersionPath(path), note);
+            case 'overwrite':
+            default:
+                await this.app.vault.modify(existing, this.render(note));
+                return existing;
+        }
+    }
+
+    private async create(path: string, note: SummaryNote): Promise<TFile> {
+        const folder = path.substring(0, path.lastIndexOf('/'));
+        if (folder && !this.app.vault.getFolderByPath(folder)) {
+            await this.app.vault.createFolder(folder);
+        }
+        return this.app.vault.create(path, this.render(note));
+    }
+
+    private nextVersionPath(path: string): string {
+        const base = path.slice(0, -'.md'.length);
+        let version = 2;
+        while (this.app.vault.getAbstractFileByPath(`${base} (${version}).md`)) {
+            version++;
+        }
+        return `${base} (${version}).md`;
+    }
+
+    private render(note: SummaryNote): string {
+        const frontmatter: Record<string, string | number | boolean> = {
+            type: note.rollup ? 'discord-rollup' : 'discord-summary',
+            server: note.server,
+            channel: note.channel,
+            server_id: note.serverId,
+            channel_id: note.channelId,
+            start: note.start.toISOString(),
+            end: note.end.toISOString(),
+            message_count: note.messageCount,
+            model: note.model,
+            generated_at: new Date().toISOString(),
+        };
+        if (note.rollup) {
+            frontmatter.rollup = note.rollup;
+            frontmatter.source_notes = note.sourceCount ?? 0;
+        }
+        if (note.partial) {
+            frontmatter.partial = true;
+        }
+
+        return `${renderFrontmatter(frontmatter)}\n\n${note.content}\n`;
+    }
+}
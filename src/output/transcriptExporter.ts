@@ -0,0 +1,234 @@
+import { App, TFile } from 'obsidian';
+import { messageUrl } from '../discord/citations';
+import { DateUtils } from '../discord/dateUtils';
+import { Message } from '../discord/discord';
+import { displayName, hasContent, resolveMentions, TranscriptContext } from '../discord/transcript';
+import { DiscordSummarizerPluginSettings } from '../settings';
+import { NoteLocation, renderFrontmatter, resolveNotePath } from './noteWriter';
+
+export type TranscriptFormat = 'markdown' | 'json' | 'csv';
+
+export const TRANSCRIPT_FORMATS: Record<TranscriptFormat, string> = {
+    markdown: 'Markdown',
+    json: 'JSON',
+    csv: 'CSV',
+};
+
+const EXTENSIONS: Record<TranscriptFormat, string> = {
+    markdown: 'md',
+    json: 'json',
+    csv: 'csv',
+};
+
+// Consecutive messages by the same author within this gap share one heading
+const GROUP_GAP_MS = 10 * 60 * 1000;
+const REPLY_QUOTE_LENGTH = 200;
+
+export interface Transcript extends NoteLocation {
+    messages: Message[];
+    context: TranscriptContext;
+}
+
+function authorName(msg: Message): string {
+    return msg.author ? displayName(msg.author, msg.member) : 'Unknown';
+}
+
+function dayOf(timestamp: string): string {
+    return new Date(timestamp).toLocaleDateString(undefined, { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' });
+}
+
+function quote(text: string): string {
+    const flat = text.replace(/\s+/g, ' ').trim();
+    return flat.length > REPLY_QUOTE_LENGTH ? `${flat.slice(0, REPLY_QUOTE_LENGTH - 1)}…` : flat;
+}
+
+function renderMessageBody(msg: Message, transcript: Transcript): string[] {
+    const lines: string[] = [];
+
+    const reply = msg.referenced_message;
+    if (reply?.author) {
+        const url = messageUrl(transcript.serverId, reply.channel_id || transcript.channelId, reply.id);
+        lines.push(`> [**${authorName(reply)}**](${url}): ${quote(resolveMentions(reply.content || '', reply, transcript.context)) || '_attachment_'}`, '');
+    } else if (msg.message_reference?.message_id && msg.type === 19) {
+        lines.push('> _Reply to a deleted message_', '');
+    }
+
+    const content = resolveMentions((msg.content || '').trim(), msg, transcript.context);
+    if (content) {
+        lines.push(content);
+    }
+    for (const attachment of msg.attachments || []) {
+        lines.push(`📎 [${attachment.filename}](${attachment.url})`);
+    }
+    for (const embed of msg.embeds || []) {
+        if (embed.url) {
+            lines.push(`🔗 [${embed.title || embed.provider?.name || embed.url}](${embed.url})`);
+        }
+    }
+    if (msg.reactions?.length) {
+        lines.push(`_${msg.reactions.map(reaction => `${reaction.emoji.name ?? '?'} ${reaction.count}`).join(' · ')}_`);
+    }
+    if (msg.thread) {
+        lines.push(`_Started thread "${msg.thread.name}"_`);
+    }
+    return lines;
+}
+
+/** A day heading per date, an author heading per run of messages, with replies quoted above them. */
+function renderMarkdown(transcript: Transcript): string {
+    const dateUtils = new DateUtils();
+    const frontmatter = renderFrontmatter({
+        type: 'discord-transcript',
+        server: transcript.server,
+        channel: transcript.channel,
+        server_id: transcript.serverId,
+        channel_id: transcript.channelId,
+        start: transcript.start.toISOString(),
+        end: transcript.end.toISOString(),
+        message_count: transcript.messages.length,
+        exported_at: new Date().toISOString(),
+    });
+
+    const lines = [frontmatter, '', `# #${transcript.channel} (${transcript.server})`];
+    let day = '';
+    let previous: Message | null = null;
+
+    for (const msg of transcript.messages) {
+        const msgDay = dayOf(msg.timestamp);
+        if (msgDay !== day) {
+            lines.push('', `## ${msgDay}`);
+            day = msgDay;
+            previous = null;
+        }
+
+        const continues = previous
+            && previous.author?.id === msg.author?.id
+            && !msg.referenced_message
+            && new Date(msg.timestamp).getTime() - new Date(previous.timestamp).getTime() < GROUP_GAP_MS;
+        if (!continues) {
+            const url = messageUrl(transcript.serverId, msg.channel_id || transcript.channelId, msg.id);
+            lines.push('', `### ${authorName(msg)} · [${dateUtils.formatDate(msg.timestamp)}](${url})`);
+        }
+
+        lines.push('', ...renderMessageBody(msg, transcript));
+        previous = msg;
+    }
+
+    return `${lines.join('\n')}\n`;
+}
+
+function toRecord(msg: Message, transcript: Transcript) {
+    return {
+        id: msg.id,
+        url: messageUrl(transcript.serverId, msg.channel_id || transcript.channelId, msg.id),
+        timestamp: msg.timestamp,
+        edited_timestamp: msg.edited_timestamp ?? null,
+        author: {
+            id: msg.author?.id ?? null,
+            username: msg.author?.username ?? null,
+            name: authorName(msg),
+            bot: Boolean(msg.author?.bot),
+        },
+        content: resolveMentions(msg.content || '', msg, transcript.context),
+        reply_to: msg.referenced_message?.id ?? msg.message_reference?.message_id ?? null,
+        attachments: (msg.attachments || []).map(attachment => ({
+            filename: attachment.filename,
+            url: attachment.url,
+            content_type: attachment.content_type ?? null,
+        })),
+        reactions: (msg.reactions || []).map(reaction => ({ emoji: reaction.emoji.name, count: reaction.count })),
+    };
+}
+
+function renderJson(transcript: Transcript): string {
+    return JSON.stringify({
+        server: transcript.server,
+        channel: transcript.channel,
+        server_id: transcript.serverId,
+        channel_id: transcript.channelId,
+        start: transcript.start.toISOString(),
+        end: transcript.end.toISOString(),
+        messages: transcript.messages.map(msg => toRecord(msg, transcript)),
+    }, null, 2) + '\n';
+}
+
+function csvField(value: string | number | boolean | null): string {
+    const text = value === null ? '' : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function renderCsv(transcript: Transcript): string {
+    const dateUtils = new DateUtils();
+    const header = ['id', 'timestamp', 'local_time', 'author_id', 'author', 'content', 'reply_to', 'attachments', 'url'];
+    const rows = transcript.messages.map(msg => {
+        const record = toRecord(msg, transcript);
+        return [
+            record.id,
+            record.timestamp,
+            dateUtils.formatDate(record.timestamp),
+            record.author.id,
+            record.author.name,
+            record.content,
+            record.reply_to,
+            record.attachments.map(attachment => attachment.url).join(' '),
+            record.url,
+        ].map(csvField).join(',');
+    });
+    return [header.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+export function renderTranscript(transcript: Transcript, format: TranscriptFormat): string {
+    const readable = { ...transcript, messages: transcript.messages.filter(hasContent) };
+    switch (format) {
+        case 'json':
+            return renderJson(readable);
+        case 'csv':
+            return renderCsv(readable);
+        case 'markdown':
+        default:
+            return renderMarkdown(readable);
+    }
+}
+
+/**
+ * Writes fetched messages into the vault as they are, at a path built from
+ * `transcriptPathTemplate`, without involving the AI provider.
+ */
+export class TranscriptWriter {
+    private app: App;
+    private settings: DiscordSummarizerPluginSettings;
+
+    constructor(app: App, settings: DiscordSummarizerPluginSettings) {
+        this.app = app;
+        this.settings = settings;
+    }
+
+    async write(transcript: Transcript, format: TranscriptFormat): Promise<TFile> {
+        const extension = EXTENSIONS[format];
+        const path = resolveNotePath(this.settings.transcriptPathTemplate, transcript, extension);
+        const content = renderTranscript(transcript, format);
+
+        const existing = this.app.vault.getFileByPath(path);
+        if (existing && this.settings.noteExistsBehavior === 'overwrite') {
+            await this.app.vault.modify(existing, content);
+            return existing;
+        }
+
+        // Appending to JSON or CSV would make it invalid, so anything but overwriting creates a new version
+        const target = existing ? this.nextVersionPath(path, extension) : path;
+        const folder = target.substring(0, target.lastIndexOf('/'));
+        if (folder && !this.app.vault.getFolderByPath(folder)) {
+            await this.app.vault.createFolder(folder);
+        }
+        return this.app.vault.create(target, content);
+    }
+
+    private nextVersionPath(path: string, extension: string): string {
+        const base = path.slice(0, -(extension.length + 1));
+        let version = 2;
+        while (this.app.vault.getAbstractFileByPath(`${base} (${version}).${extension}`)) {
+            version++;
+        }
+        return `${base} (${version}).${extension}`;
+    }
+}
@@ -0,0 +1,465 @@
+import { CitationIndex, CITATION_INSTRUCTIONS, linkCitations } from './discord/citations';
+import { DateUtils } from './discord/dateUtils';
+import { applyFilter, FilterResult } from './discord/filters';
+import { ChannelInfo, Discord, Message } from './discord/discord';
+import { abortError } from './discord/http';
+import { MessageCache } from './discord/messageCache';
+import { ChannelType } from './discord/permissions';
+import { Redactor } from './discord/redaction';
+import { TranscriptContext } from './discord/transcript';
+import { createProvider, resolveTokenBudget } from './ai/provider';
+import { findTemplate, renderTemplate, usesVariable } from './ai/prompts';
+import { Extractor } from './ai/extraction';
+import { estimateTokens, Summarizer } from './ai/summarize';
+import { AIProvider, TokenUsage } from './ai/types';
+import { costOf, CostEstimate, resolvePrice, UsageMeter } from './ai/usage';
+import { RunHooks } from './progress';
+import { renderExtraction } from './output/extractionMarkdown';
+import { SummaryNote } from './output/noteWriter';
+import { Transcript } from './output/transcriptExporter';
+import type { RollupLevel, RollupSource } from './rollup';
+import { ChannelTarget, createChannelTarget, DiscordSummarizerPluginSettings } from './settings';
+
+export interface Digest {
+    content: string;
+    messageCount: number;
+    sections: ChannelSummary[];
+}
+
+export interface FilterPreview extends FilterResult {
+    total: number;
+    estimate: CostEstimate;
+}
+
+export interface ChannelSummary {
+    target: ChannelTarget;
+    title: string;
+    messageCount: number;
+    newestMessageId: string | null;
+    summary: string;
+    // Set when the fetch stopped at its page limit, so the summary ends at `newestMessageId` rather than now
+    truncated?: boolean;
+}
+
+/** Whether the target's filter goes by something cached messages don't keep up to date, like reactions. */
+function needsFreshMessages(target: ChannelTarget): boolean {
+    return target.filter.minReactions > 0;
+}
+
+function newerId(a: string | null, b: string | null): string | null {
+    if (!a || !b) {
+        return a ?? b;
+    }
+    return BigInt(a) >= BigInt(b) ? a : b;
+}
+
+/**
+ * The fetch → prompt → completion pipeline shared by every command that
+ * produces a summary.
+ */
+export class SummaryPipeline {
+    private settings: DiscordSummarizerPluginSettings;
+    private client: Discord;
+    private provider: AIProvider;
+    private hooks: RunHooks;
+    private channelInfo = new Map<string, Promise<ChannelInfo>>();
+    // Shared by every channel in a run, so a person keeps the same pseudonym throughout
+    private redactor: Redactor;
+    // Channel that completions are currently made for; null for cross-channel work
+    private usageTarget: ChannelTarget | null = null;
+
+    constructor(
+        settings: DiscordSummarizerPluginSettings,
+        cache: MessageCache | null = null,
+        hooks: RunHooks = {},
+        onUsage: (usage: TokenUsage, target: ChannelTarget | null) => void = () => {}
+    ) {
+        this.settings = settings;
+        this.hooks = hooks;
+        this.client = new Discord(settings.discordApiBase, settings.discordAuthMode, settings.discordRateLimitDelay, cache, hooks);
+        this.redactor = new Redactor(settings.redaction);
+        this.provider = new UsageMeter(createProvider(settings), usage => onUsage(usage, this.usageTarget));
+    }
+
+    get model(): string {
+        return this.provider.model;
+    }
+
+    describeChannel(target: ChannelTarget): Promise<ChannelInfo> {
+        let info = this.channelInfo.get(target.channelId);
+        if (!info) {
+            info = this.client.fetchChannelInfo(target.channelId, this.settings.discordToken);
+            this.channelInfo.set(target.channelId, info);
+        }
+        return info;
+    }
+
+    /** The channel configured in the single-channel settings. */
+    defaultTarget(): ChannelTarget {
+        return createChannelTarget({
+            serverId: this.settings.discordServerId,
+            channelId: this.settings.discordChannelId,
+            filter: this.settings.messageFilter,
+        });
+    }
+
+    /**
+     * Fetches the channel's messages in the range, applies its filter and
+     * estimates the cost of summarizing the rest, without calling the AI
+     * provider. Threads aren't included.
+     */
+    async previewFilter(target: ChannelTarget, startDate: Date, endDate: Date): Promise<FilterPreview> {
+        const messages = await this.fetchMessages(target, startDate, endDate);
+        const result = applyFilter(messages, target.filter);
+        return {
+            ...result,
+            total: messages.length,
+            estimate: await this.estimate(target, result.messages, startDate, endDate),
+        };
+    }
+
+    /** Projects the tokens and cost of summarizing `messages` with the current settings. */
+    async estimate(target: ChannelTarget, messages: Message[], startDate: Date, endDate: Date, templateId?: string): Promise<CostEstimate> {
+        if (messages.length === 0) {
+            return { messageCount: 0, requests: 0, inputTokens: 0, outputTokens: 0, cost: 0 };
+        }
+
+        if (this.settings.summaryStyle === 'extraction') {
+            const { transcript } = await this.prepareExtraction(target, messages);
+            return this.toEstimate(messages.length, this.createExtractor().estimate(transcript));
+        }
+        const { transcript, buildPrompt } = await this.preparePrompt(target, messages, startDate, endDate, templateId);
+        return this.toEstimate(messages.length, this.createSummarizer().estimate(transcript, buildPrompt));
+    }
+
+    /** The channel's messages in the range, oldest first, before filtering. */
+    async fetchMessages(target: ChannelTarget, startDate: Date, endDate: Date): Promise<Message[]> {
+        this.hooks.onStage?.('fetching', target.label || undefined);
+        return this.client.getAllMessagesBetweenDates(target.channelId, this.settings.discordToken, startDate, endDate, undefined, needsFreshMessages(target));
+    }
+
+    /** Fetches everything needed to write the messages as a transcript, without calling the AI provider. */
+    async fetchTranscript(target: ChannelTarget, startDate: Date, endDate: Date): Promise<Transcript> {
+        const messages = await this.fetchMessages(target, startDate, endDate);
+        const info = await this.describeChannel(target);
+        return {
+            server: info.serverName,
+            channel: info.channelName,
+            serverId: target.serverId,
+            channelId: target.channelId,
+            start: startDate,
+            end: endDate,
+            messages,
+            context: await this.transcriptContext(target, messages),
+        };
+    }
+
+    async summarizeChannel(target: ChannelTarget, startDate: Date, endDate: Date, templateId?: string): Promise<ChannelSummary> {
+        if (this.settings.includeThreads) {
+            return this.summarizeChannelWithThreads(target, startDate, endDate, templateId);
+        }
+
+        const messages = await this.fetchMessages(target, startDate, endDate);
+        return this.summarizeMessages(target, messages, startDate, endDate, templateId);
+    }
+
+    /**
+     * Summarizes the channel and then each thread or forum post that was
+     * active in the range, as subsections under the channel's summary.
+     */
+    private async summarizeChannelWithThreads(target: ChannelTarget, startDate: Date, endDate: Date, templateId?: string): Promise<ChannelSummary> {
+        const token = this.settings.discordToken;
+        this.hooks.onStage?.('fetching', target.label || undefined);
+        const channel = await this.client.fetchChannel(target.channelId, token);
+        // Forum channels have no messages of their own, only posts
+        const isForum = channel.type === ChannelType.GUILD_FORUM || channel.type === ChannelType.GUILD_MEDIA;
+
+        const parentMessages = isForum
+            ? []
+            : await this.client.getAllMessagesBetweenDates(target.channelId, token, startDate, endDate, undefined, needsFreshMessages(target));
+        const result = await this.summarizeMessages(target, parentMessages, startDate, endDate, templateId);
+
+        const guildId = channel.guild_id || target.serverId;
+        if (!guildId) {
+            return result;
+        }
+
+        await this.client.delay(this.settings.discordRateLimitDelay);
+        const threads = await this.client.getThreadsActiveBetween(guildId, target.channelId, token, startDate, endDate);
+        const sections: string[] = [];
+
+        for (const thread of threads) {
+            this.hooks.onStage?.('fetching', thread.name);
+            await this.client.delay(this.settings.discordRateLimitDelay);
+            const messages = await this.client.getAllMessagesBetweenDates(thread.id, token, startDate, endDate, undefined, needsFreshMessages(target));
+            if (messages.length === 0) {
+                continue;
+            }
+
+            const threadResult = await this.summarizeMessages(target, messages, startDate, endDate, templateId);
+            // Snowflakes are ordered by time across channels, so the cursor covers thread replies too
+            result.newestMessageId = newerId(result.newestMessageId, threadResult.newestMessageId);
+            if (threadResult.messageCount === 0) {
+                continue;
+            }
+            result.messageCount += threadResult.messageCount;
+            sections.push(`### ${isForum ? 'Post' : 'Thread'}: ${thread.name}\n\n${threadResult.summary}`);
+        }
+
+        if (sections.length > 0) {
+            result.summary = [result.summary, ...sections].filter(Boolean).join('\n\n');
+        }
+        return result;
+    }
+
+    /**
+     * Summarizes what was posted in the channel after the message `afterId`,
+     * up to the page limit; the next run picks up where a truncated one stopped.
+     */
+    async summarizeSince(target: ChannelTarget, afterId: string, templateId?: string): Promise<ChannelSummary> {
+        this.hooks.onStage?.('fetching', target.label || undefined);
+        const { messages, truncated } = await this.client.getAllMessagesAfter(target.channelId, this.settings.discordToken, afterId);
+        const dateUtils = new DateUtils();
+        const startDate = dateUtils.snowflakeToDate(afterId) ?? new Date(0);
+        const endDate = truncated && messages.length > 0 ? new Date(messages[messages.length - 1].timestamp) : new Date();
+        return { ...await this.summarizeMessages(target, messages, startDate, endDate, templateId), truncated };
+    }
+
+    private async summarizeMessages(
+        target: ChannelTarget,
+        fetched: Message[],
+        startDate: Date,
+        endDate: Date,
+        templateId?: string
+    ): Promise<ChannelSummary> {
+        const { messages } = applyFilter(fetched, target.filter);
+        let summary = '';
+        this.usageTarget = target;
+
+        if (messages.length > 0 && this.settings.summaryStyle === 'extraction') {
+            summary = await this.extractMessages(target, messages);
+        } else if (messages.length > 0) {
+            const { transcript, buildPrompt, citations } = await this.preparePrompt(target, messages, startDate, endDate, templateId);
+            // Call the configured AI provider, splitting the transcript if it exceeds the context window
+            const summarizer = this.createSummarizer();
+            await this.confirmEstimate(this.toEstimate(messages.length, summarizer.estimate(transcript, buildPrompt)));
+            summary = await summarizer.summarize(transcript, buildPrompt);
+
+            if (citations) {
+                summary = linkCitations(summary, citations);
+            }
+        }
+        summary = this.redactor.restore(summary);
+
+        return {
+            target,
+            title: target.label,
+            messageCount: messages.length,
+            // Messages are sorted oldest first. Filtered-out messages still move the cursor past them
+            newestMessageId: fetched[fetched.length - 1]?.id ?? null,
+            summary,
+        };
+    }
+
+    /** Builds the transcript and the prompt around it for a prose summary. */
+    private async preparePrompt(target: ChannelTarget, messages: Message[], startDate: Date, endDate: Date, templateId?: string) {
+        const template = findTemplate(this.settings, templateId || target.templateId);
+        // Channel and server names cost two API calls, so only look them up when the template needs them
+        const info = usesVariable(template, 'channel') || usesVariable(template, 'server')
+            ? await this.describeChannel(target)
+            : { channelName: '', serverName: '' };
+        const dateUtils = new DateUtils();
+
+        const citations = this.settings.citeSources
+            ? new CitationIndex(messages, target.serverId, target.channelId)
+            : undefined;
+
+        // Concatentate messages to a single string, scrubbed of anything that shouldn't leave the machine
+        const transcript = this.redactor.redact(this.client.formatMessagesForPrompt(
+            messages,
+            { ...await this.transcriptContext(target, messages), citations }
+        ), messages);
+        const buildPrompt = (text: string) => {
+            const prompt = renderTemplate(template, {
+                messages: text,
+                channel: info.channelName,
+                server: info.serverName,
+                start: dateUtils.formatDate(startDate.toISOString()),
+                end: dateUtils.formatDate(endDate.toISOString()),
+                message_count: String(messages.length),
+            });
+            return citations ? `${CITATION_INSTRUCTIONS}\n\n${prompt}` : prompt;
+        };
+        return { transcript, buildPrompt, citations };
+    }
+
+    private async prepareExtraction(target: ChannelTarget, messages: Message[]) {
+        const citations = new CitationIndex(messages, target.serverId, target.channelId);
+        const transcript = this.redactor.redact(this.client.formatMessagesForPrompt(
+            messages,
+            { ...await this.transcriptContext(target, messages), citations }
+        ), messages);
+        return { transcript, citations };
+    }
+
+    /** Extracts action items, decisions and so on, each linking back to the message it came from. */
+    private async extractMessages(target: ChannelTarget, messages: Message[]): Promise<string> {
+        const { transcript, citations } = await this.prepareExtraction(target, messages);
+        const extractor = this.createExtractor();
+        await this.confirmEstimate(this.toEstimate(messages.length, extractor.estimate(transcript)));
+        return renderExtraction(await extractor.extract(transcript), ref => citations.url(ref));
+    }
+
+    private createSummarizer(): Summarizer {
+        return new Summarizer(this.provider, resolveTokenBudget(this.settings), this.settings.aiMaxTokens, this.hooks);
+    }
+
+    private createExtractor(): Extractor {
+        return new Extractor(this.provider, resolveTokenBudget(this.settings), this.settings.aiMaxTokens, this.hooks);
+    }
+
+    private toEstimate(messageCount: number, projected: TokenUsage & { requests: number }): CostEstimate {
+        return { messageCount, ...projected, cost: costOf(projected, resolvePrice(this.settings)) };
+    }
+
+    /** Lets the caller see the estimate before anything is sent, and cancel the run. */
+    private async confirmEstimate(estimate: CostEstimate): Promise<void> {
+        if (this.hooks.confirmEstimate && !await this.hooks.confirmEstimate(estimate)) {
+            throw abortError();
+        }
+    }
+
+    /**
+     * Fetches the guild's channel and role names, but only when the
+     * messages mention channels or roles.
+     */
+    private async transcriptContext(target: ChannelTarget, messages: Message[]): Promise<TranscriptContext> {
+        const context: TranscriptContext = {};
+        if (!target.serverId) {
+            return context;
+        }
+
+        const text = messages.map(msg => `${msg.content} ${msg.referenced_message?.content ?? ''}`).join('\n');
+        try {
+            if (/<#\d+>/.test(text)) {
+                const channels = await this.client.fetchGuildChannels(target.serverId, this.settings.discordToken);
+                context.channelNames = new Map(channels.map(channel => [channel.id, channel.name]));
+            }
+            if (/<@&\d+>/.test(text)) {
+                await this.client.delay(this.settings.discordRateLimitDelay);
+                const roles = await this.client.fetchGuildRoles(target.serverId, this.settings.discordToken);
+                context.roleNames = new Map(roles.map(role => [role.id, role.name]));
+            }
+        } catch (error) {
+            // Unresolved mentions are only cosmetic, so carry on without them
+            console.warn('Could not resolve channel or role mentions:', error);
+        }
+        return context;
+    }
+
+    /** Looks up the channel's names and packages a result for the note writer. */
+    async toNote(result: ChannelSummary, startDate: Date, endDate: Date): Promise<SummaryNote> {
+        const info = await this.describeChannel(result.target);
+        return {
+            server: info.serverName,
+            channel: info.channelName,
+            serverId: result.target.serverId,
+            channelId: result.target.channelId,
+            start: startDate,
+            end: endDate,
+            messageCount: result.messageCount,
+            model: this.model,
+            content: result.summary,
+        };
+    }
+
+    /**
+     * Writes a weekly or monthly summary of a channel from the summaries of
+     * its days or weeks. Only available without pseudonyms: the notes hold
+     * either real names or pseudonyms from runs of their own, and without
+     * their messages neither can be mapped to one consistent set.
+     */
+    async summarizeRollup(target: ChannelTarget, level: RollupLevel, sources: RollupSource[]): Promise<string> {
+        if (this.settings.redaction.pseudonymize) {
+            throw new Error('Rollups aren\'t available while "Pseudonymize people" is on.');
+        }
+        const info = await this.describeChannel(target);
+        this.hooks.onStage?.('summarizing', `${level} rollup`);
+        this.usageTarget = target;
+
+        const combined = this.redactor.redact(sources.map(source => `### ${source.label}\n${source.content}`).join('\n\n'));
+        const buildPrompt = (text: string) => this.createRollupPrompt(level, info.channelName, text);
+        const summarizer = this.createSummarizer();
+        const messageCount = sources.reduce((total, source) => total + source.messageCount, 0);
+        await this.confirmEstimate(this.toEstimate(messageCount, summarizer.estimate(combined, buildPrompt)));
+        return this.redactor.restore(await summarizer.summarize(combined, buildPrompt));
+    }
+
+    private createRollupPrompt(level: RollupLevel, channel: string, summaries: string): string {
+        const [period, parts] = level === 'weekly' ? ['week', 'day'] : ['month', 'week'];
+
+        return `Below are summaries of the Discord channel #${channel}, one per ${parts} of a ${period}, in chronological order.
+        Write a summary of the whole ${period} from them: the main themes, how discussions and decisions developed over the ${period}, and what is still open.
+        Don't retell each ${parts} in turn, and keep Markdown links to Discord messages where they support a point:\n\n${summaries}`;
+    }
+
+    /**
+     * Summarizes each target in turn and combines the results into one note,
+     * with a section per channel and an optional cross-channel overview.
+     */
+    async createDigest(targets: ChannelTarget[], startDate: Date, endDate: Date): Promise<Digest> {
+        const sections: ChannelSummary[] = [];
+
+        for (const target of targets) {
+            if (sections.length > 0) {
+                await this.client.delay(this.settings.discordRateLimitDelay);
+            }
+
+            const section = await this.summarizeChannel(target, startDate, endDate);
+            if (!section.title) {
+                const info = await this.describeChannel(target);
+                section.title = `#${info.channelName} (${info.serverName})`;
+            }
+            sections.push(section);
+        }
+
+        const parts = [`# Discord digest ${startDate.toLocaleDateString()} – ${endDate.toLocaleDateString()}`];
+
+        const withContent = sections.filter(section => section.summary);
+        if (this.settings.digestOverview && withContent.length > 1) {
+            this.hooks.onStage?.('summarizing', 'overview');
+            this.usageTarget = null;
+            // Section summaries may have had their real names restored; pseudonymize them again
+            const prompt = this.redactor.redact(this.createOverviewPrompt(withContent));
+            await this.confirmEstimate(this.toEstimate(
+                withContent.reduce((total, section) => total + section.messageCount, 0),
+                { requests: 1, inputTokens: estimateTokens(prompt), outputTokens: this.settings.aiMaxTokens }
+            ));
+            const overview = await this.provider.complete(prompt, {
+                signal: this.hooks.signal,
+                onToken: this.hooks.onToken,
+            });
+            parts.push(`## What mattered most\n\n${this.redactor.restore(overview)}`);
+        }
+
+        for (const section of sections) {
+            parts.push(`## ${section.title}\n\n${section.summary || '_No messages in this period._'}`);
+        }
+
+        return {
+            content: parts.join('\n\n'),
+            messageCount: sections.reduce((total, section) => total + section.messageCount, 0),
+            sections,
+        };
+    }
+
+    private createOverviewPrompt(sections: ChannelSummary[]): string {
+        const combined = sections
+            .map(section => `### ${section.title}\n${section.summary}`)
+            .join('\n\n');
+
+        return `Below are summaries of several Discord channels covering the same period.
+        Write a short overview of what mattered most across all of them: the most important discussions, decisions and news, and any topics that came up in more than one channel.
+        Mention which channel each point comes from. Use a few bullet points at most:\n\n${combined}`;
+    }
+}
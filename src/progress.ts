@@ -0,0 +1,13 @@
+import { CostEstimate } from './ai/usage';
+import { FetchHooks } from './discord/discord';
+
+export type RunStage = 'fetching' | 'chunking' | 'summarizing' | 'writing';
+
+/** Lets a long run report what it is doing and be cancelled. */
+export interface RunHooks extends FetchHooks {
+    onStage?: (stage: RunStage, detail?: string) => void;
+    // Receives the text of final summary passes as it is generated, when set
+    onToken?: (text: string) => void;
+    // Sees the projected cost before each channel is summarized; resolving to false cancels the run
+    confirmEstimate?: (estimate: CostEstimate) => Promise<boolean>;
+}
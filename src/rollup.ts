@@ -0,0 +1,339 @@
+import { FrontMatterCache, TFile } from 'obsidian';
+import { DateUtils } from './discord/dateUtils';
+import type DiscordSummarizerPlugin from './main';
+import { NoteWriter } from './output/noteWriter';
+import { SummaryPipeline } from './pipeline';
+import { RunHooks } from './progress';
+import { ChannelTarget } from './settings';
+
+export type RollupLevel = 'weekly' | 'monthly';
+
+export const ROLLUP_LEVELS: Record<RollupLevel, string> = {
+    weekly: 'Week, from daily summaries',
+    monthly: 'Month, from weekly summaries',
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+// Longest summary notes that still count as daily ones, so monthly rollups aren't built from days
+const MAX_DAILY_HOURS = 36;
+// Ranges picked in the date range dialog end at 23:59, so ends this close to a part's still cover it
+const EDGE_TOLERANCE_MS = 60 * 1000;
+// Days without messages remembered per channel
+const MAX_EMPTY_DAYS = 400;
+
+export interface Period {
+    start: Date;
+    end: Date;
+}
+
+export interface RollupPart extends Period {
+    // False for the current day or week, which ends at the time of the run
+    complete: boolean;
+}
+
+/** One day's or week's summary, as it goes into a rollup. */
+export interface RollupSource {
+    label: string;
+    content: string;
+    messageCount: number;
+}
+
+export interface Rollup {
+    file: TFile;
+    content: string;
+    messageCount: number;
+}
+
+interface RollupSummary {
+    content: string;
+    messageCount: number;
+    sourceCount: number;
+}
+
+interface SummaryFile extends Period {
+    file: TFile;
+    generatedAt: number;
+    messageCount: number;
+}
+
+function startOfDay(date: Date): Date {
+    const start = new Date(date);
+    start.setHours(0, 0, 0, 0);
+    return start;
+}
+
+function endOfDay(date: Date): Date {
+    const end = new Date(date);
+    end.setHours(23, 59, 59, 999);
+    return end;
+}
+
+function dayKey(date: Date): string {
+    return new DateUtils().dateToLocalString(date).split('T')[0];
+}
+
+/** The week, Monday to Sunday, or the calendar month that contains `date`. */
+export function rollupPeriod(level: RollupLevel, date: Date): Period {
+    const start = startOfDay(date);
+    let end: Date;
+    if (level === 'weekly') {
+        start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+        end = new Date(start);
+        end.setDate(end.getDate() + 6);
+    } else {
+        start.setDate(1);
+        // Day 0 of the next month is the last day of this one
+        end = new Date(start.getFullYear(), start.getMonth() + 1, 0);
+    }
+    return { start, end: endOfDay(end) };
+}
+
+/** The `count` most recent periods, the current one first. */
+export function recentPeriods(level: RollupLevel, count: number, now = new Date()): Period[] {
+    const periods: Period[] = [];
+    let date = now;
+    while (periods.length < count) {
+        const period = rollupPeriod(level, date);
+        periods.push(period);
+        date = new Date(period.start.getTime() - 1);
+    }
+    return periods;
+}
+
+/**
+ * What a rollup is built from: the days of a week, or the Monday-to-Sunday
+ * weeks of a month cut off at its first and last day. Parts that haven't
+ * started yet are left out, and the current one ends at `now`.
+ */
+export function rollupParts(level: RollupLevel, period: Period, now = new Date()): RollupPart[] {
+    const parts: RollupPart[] = [];
+    let start = new Date(period.start);
+
+    while (start <= period.end && start < now) {
+        const partEnd = level === 'weekly' ? endOfDay(start) : rollupPeriod('weekly', start).end;
+        const end = Math.min(partEnd.getTime(), period.end.getTime());
+        parts.push({ start, end: new Date(Math.min(end, now.getTime())), complete: end <= now.getTime() });
+        start = new Date(end + 1);
+    }
+    return parts;
+}
+
+export function describePeriod(level: RollupLevel, period: Period): string {
+    if (level === 'monthly') {
+        return period.start.toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+    }
+    const format: Intl.DateTimeFormatOptions = { month: 'short', day: 'numeric', year: 'numeric' };
+    return `${period.start.toLocaleDateString(undefined, format)} – ${period.end.toLocaleDateString(undefined, format)}`;
+}
+
+function describePart(level: RollupLevel, part: Period): string {
+    if (level === 'weekly') {
+        return part.start.toLocaleDateString(undefined, { weekday: 'long', month: 'long', day: 'numeric' });
+    }
+    const format: Intl.DateTimeFormatOptions = { month: 'long', day: 'numeric' };
+    return `${part.start.toLocaleDateString(undefined, format)} – ${part.end.toLocaleDateString(undefined, format)}`;
+}
+
+/** Whether a summary note is of the kind a rollup at `level` is built from. */
+function isSourceFor(level: RollupLevel, frontmatter: FrontMatterCache, hours: number): boolean {
+    // Rollups of a period that hadn't ended yet
+    if (frontmatter.partial) {
+        return false;
+    }
+    if (level === 'weekly') {
+        return frontmatter.type === 'discord-summary';
+    }
+    if (frontmatter.type === 'discord-rollup') {
+        return frontmatter.rollup === 'weekly';
+    }
+    // Summaries of a week or so, such as weekly scheduled ones
+    return frontmatter.type === 'discord-summary' && hours > MAX_DAILY_HOURS;
+}
+
+/**
+ * Builds weekly summaries from the daily summary notes of a channel and
+ * monthly ones from its weekly summaries, recognising the notes by their
+ * frontmatter. Days and weeks that no notes cover are summarized first; the
+ * ones that have ended are written to notes of their own so later rollups
+ * can reuse them.
+ */
+export class RollupBuilder {
+    private plugin: DiscordSummarizerPlugin;
+    private pipeline: SummaryPipeline;
+    private hooks: RunHooks;
+    private writer: NoteWriter;
+    // Daily and weekly summaries that were missing and generated by this builder
+    generated = 0;
+
+    constructor(plugin: DiscordSummarizerPlugin, pipeline: SummaryPipeline, hooks: RunHooks = {}) {
+        this.plugin = plugin;
+        this.pipeline = pipeline;
+        this.hooks = hooks;
+        this.writer = new NoteWriter(plugin.app, plugin.settings);
+    }
+
+    /**
+     * Writes the rollup note for the period; null when nothing was posted in
+     * it. A period that hasn't ended is summarized up to now and marked as
+     * partial, so later rollups don't take it for the whole period.
+     */
+    async build(target: ChannelTarget, level: RollupLevel, period: Period): Promise<Rollup | null> {
+        const rollup = await this.summarize(target, level, period);
+        if (!rollup) {
+            return null;
+        }
+
+        const now = new Date();
+        const partial = period.end > now;
+        const file = await this.write(target, level, { start: period.start, end: partial ? now : period.end }, rollup, partial);
+        return { file, content: rollup.content, messageCount: rollup.messageCount };
+    }
+
+    private async summarize(target: ChannelTarget, level: RollupLevel, period: Period): Promise<RollupSummary | null> {
+        const sources = (await this.collectSources(target, level, period)).filter(source => source.content);
+        if (sources.length === 0) {
+            return null;
+        }
+
+        return {
+            content: await this.pipeline.summarizeRollup(target, level, sources),
+            messageCount: sources.reduce((total, source) => total + source.messageCount, 0),
+            sourceCount: sources.length,
+        };
+    }
+
+    private async write(target: ChannelTarget, level: RollupLevel, period: Period, rollup: RollupSummary, partial: boolean): Promise<TFile> {
+        const note = await this.pipeline.toNote(
+            { target, title: target.label, messageCount: rollup.messageCount, newestMessageId: null, summary: rollup.content },
+            period.start,
+            period.end
+        );
+        this.hooks.onStage?.('writing');
+        return this.writer.write({ ...note, rollup: level, sourceCount: rollup.sourceCount, partial });
+    }
+
+    private async collectSources(target: ChannelTarget, level: RollupLevel, period: Period): Promise<RollupSource[]> {
+        const notes = this.findSourceNotes(target.channelId, level);
+        const emptyDays = this.plugin.settings.emptyDays[target.channelId] ?? [];
+        const sources: RollupSource[] = [];
+
+        for (const part of rollupParts(level, period)) {
+            const label = describePart(level, part);
+            if (level === 'weekly' && part.complete && emptyDays.includes(dayKey(part.start))) {
+                continue;
+            }
+
+            const existing = pickNotes(notes, part);
+            if (!existing) {
+                sources.push({ label, ...await this.generate(target, level, part) });
+                continue;
+            }
+            for (const note of existing) {
+                sources.push({ label, content: await this.readSummary(note.file), messageCount: note.messageCount });
+            }
+        }
+        return sources;
+    }
+
+    /** Summarizes a day from its messages, or a week from its days. */
+    private async generate(target: ChannelTarget, level: RollupLevel, part: RollupPart): Promise<Omit<RollupSource, 'label'>> {
+        if (level === 'monthly') {
+            const week = await this.summarize(target, 'weekly', part);
+            if (!week) {
+                return { content: '', messageCount: 0 };
+            }
+            this.generated++;
+            if (part.complete) {
+                await this.write(target, 'weekly', part, week, false);
+            }
+            return { content: week.content, messageCount: week.messageCount };
+        }
+
+        const result = await this.pipeline.summarizeChannel(target, part.start, part.end);
+        if (result.summary) {
+            this.generated++;
+            if (part.complete) {
+                await this.writer.write(await this.pipeline.toNote(result, part.start, part.end));
+            }
+        } else if (result.messageCount === 0 && part.complete) {
+            await this.recordEmptyDay(target.channelId, part.start);
+        }
+        await this.plugin.recordCursor(result);
+        return { content: result.summary, messageCount: result.messageCount };
+    }
+
+    private async recordEmptyDay(channelId: string, day: Date): Promise<void> {
+        const settings = this.plugin.settings;
+        settings.emptyDays[channelId] = [...(settings.emptyDays[channelId] ?? []), dayKey(day)].slice(-MAX_EMPTY_DAYS);
+        await this.plugin.saveSettings();
+    }
+
+    private findSourceNotes(channelId: string, level: RollupLevel): SummaryFile[] {
+        const { vault, metadataCache } = this.plugin.app;
+        const notes: SummaryFile[] = [];
+
+        for (const file of vault.getMarkdownFiles()) {
+            const frontmatter = metadataCache.getFileCache(file)?.frontmatter;
+            if (!frontmatter || String(frontmatter.channel_id) !== channelId) {
+                continue;
+            }
+            const start = new Date(frontmatter.start);
+            const end = new Date(frontmatter.end);
+            if (isNaN(start.getTime()) || isNaN(end.getTime())
+                || !isSourceFor(level, frontmatter, (end.getTime() - start.getTime()) / HOUR_MS)) {
+                continue;
+            }
+            notes.push({
+                file,
+                start,
+                end,
+                generatedAt: new Date(frontmatter.generated_at).getTime() || file.stat.mtime,
+                messageCount: Number(frontmatter.message_count) || 0,
+            });
+        }
+        return notes;
+    }
+
+    /** The note's summary, without its frontmatter. */
+    private async readSummary(file: TFile): Promise<string> {
+        const content = await this.plugin.app.vault.cachedRead(file);
+        const offset = this.plugin.app.metadataCache.getFileCache(file)?.frontmatterPosition?.end.offset ?? 0;
+        return content.slice(offset).trim();
+    }
+}
+
+/**
+ * The notes within `part` that together cover all of it, oldest first, or
+ * null when some of it isn't covered. A note covering the whole part is
+ * preferred; of shorter ones that overlap, such as versions of the same
+ * summary, the newest is used.
+ */
+function pickNotes(notes: SummaryFile[], part: Period): SummaryFile[] | null {
+    const from = part.start.getTime();
+    const to = part.end.getTime();
+    const within = notes
+        .filter(note => note.start.getTime() >= from - EDGE_TOLERANCE_MS && note.end.getTime() <= to + EDGE_TOLERANCE_MS)
+        .sort((a, b) => b.generatedAt - a.generatedAt);
+
+    const whole = within.find(note => note.start.getTime() <= from + EDGE_TOLERANCE_MS && note.end.getTime() >= to - EDGE_TOLERANCE_MS);
+    if (whole) {
+        return [whole];
+    }
+
+    const picked: SummaryFile[] = [];
+    for (const note of within) {
+        if (!picked.some(other => note.start < other.end && other.start < note.end)) {
+            picked.push(note);
+        }
+    }
+    picked.sort((a, b) => a.start.getTime() - b.start.getTime());
+
+    let covered = from;
+    for (const note of picked) {
+        if (note.start.getTime() > covered + EDGE_TOLERANCE_MS) {
+            return null;
+        }
+        covered = Math.max(covered, note.end.getTime());
+    }
+    return picked.length > 0 && covered >= to - EDGE_TOLERANCE_MS ? picked : null;
+}
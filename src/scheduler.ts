@@ -0,0 +1,166 @@
+import { Notice } from 'obsidian';
+import { addEstimates, CostEstimate, formatCost } from './ai/usage';
+import { isAbortError } from './discord/http';
+import { describeError } from './errors';
+import type DiscordSummarizerPlugin from './main';
+import { NoteWriter } from './output/noteWriter';
+import { ChannelSchedule, ChannelTarget } from './settings';
+
+const CHECK_INTERVAL_MS = 60 * 1000;
+const RETRY_DELAY_MS = 15 * 60 * 1000;
+// Upper bound on missed periods backfilled for one channel after a long break
+const MAX_CATCH_UP_PERIODS = 14;
+
+interface Period {
+    start: Date;
+    end: Date;
+}
+
+/** Most recent scheduled period end at or before `now`. */
+export function latestPeriodEnd(schedule: ChannelSchedule, now: Date): Date {
+    const [hours, minutes] = schedule.time.split(':').map(part => parseInt(part, 10) || 0);
+    const end = new Date(now);
+    end.setHours(hours, minutes, 0, 0);
+
+    if (schedule.frequency === 'weekly') {
+        end.setDate(end.getDate() - ((end.getDay() - schedule.weekday + 7) % 7));
+        if (end > now) {
+            end.setDate(end.getDate() - 7);
+        }
+    } else if (end > now) {
+        end.setDate(end.getDate() - 1);
+    }
+
+    return end;
+}
+
+function periodBefore(end: Date, schedule: ChannelSchedule): Period {
+    const start = new Date(end);
+    // setDate keeps the local time of day across DST changes
+    start.setDate(start.getDate() - (schedule.frequency === 'weekly' ? 7 : 1));
+    return { start, end };
+}
+
+/** Periods that ended after `lastRun`, oldest first. */
+export function duePeriods(schedule: ChannelSchedule, lastRun: Date, now: Date): Period[] {
+    const periods: Period[] = [];
+    let end = latestPeriodEnd(schedule, now);
+
+    while (end > lastRun && periods.length < MAX_CATCH_UP_PERIODS) {
+        const period = periodBefore(end, schedule);
+        periods.unshift(period);
+        end = period.start;
+    }
+
+    return periods;
+}
+
+/**
+ * Runs scheduled summaries for channel targets in the background and
+ * backfills the periods missed while Obsidian was closed.
+ */
+export class DigestScheduler {
+    private plugin: DiscordSummarizerPlugin;
+    private running = false;
+    // Channel ID → time before which a failed channel is not retried
+    private retryAfter = new Map<string, number>();
+
+    constructor(plugin: DiscordSummarizerPlugin) {
+        this.plugin = plugin;
+    }
+
+    start(): void {
+        this.plugin.app.workspace.onLayoutReady(() => this.check());
+        this.plugin.registerInterval(window.setInterval(() => this.check(), CHECK_INTERVAL_MS));
+    }
+
+    async check(): Promise<void> {
+        // Scheduled runs wait until the secrets have been unlocked
+        if (this.running || this.plugin.secretsLocked) {
+            return;
+        }
+
+        this.running = true;
+        try {
+            const targets = this.plugin.settings.channelTargets
+                .filter(target => target.channelId && target.schedule.frequency !== 'off');
+
+            for (const target of targets) {
+                await this.runTarget(target);
+            }
+        } finally {
+            this.running = false;
+        }
+    }
+
+    private async runTarget(target: ChannelTarget): Promise<void> {
+        const settings = this.plugin.settings;
+        const now = new Date();
+        if ((this.retryAfter.get(target.channelId) ?? 0) > now.getTime()) {
+            return;
+        }
+
+        const lastRun = settings.scheduleLastRuns[target.channelId];
+
+        if (!lastRun) {
+            // Newly scheduled channels start with the next period rather than backfilling history
+            settings.scheduleLastRuns[target.channelId] = latestPeriodEnd(target.schedule, now).toISOString();
+            await this.plugin.saveSettings();
+            return;
+        }
+
+        const periods = duePeriods(target.schedule, new Date(lastRun), now);
+        if (periods.length === 0) {
+            return;
+        }
+        // Catching up is capped, so say which older periods won't be summarized
+        if (periods[0].start > new Date(lastRun)) {
+            new Notice(`Scheduled summaries of ${target.label || target.channelId} skipped ${new Date(lastRun).toLocaleString()} – ${periods[0].start.toLocaleString()}, `
+                + `as only the last ${MAX_CATCH_UP_PERIODS} missed periods are caught up on. Summarize that range manually if you need it.`, 15000);
+        }
+
+        // Projected total of the period being summarized; nobody is there to confirm, so going over the threshold skips it
+        let projected: CostEstimate | null = null;
+        const pipeline = this.plugin.createPipeline({
+            confirmEstimate: async (estimate) => {
+                projected = projected ? addEstimates(projected, estimate) : estimate;
+                return !this.overBudget(projected);
+            },
+        });
+        const writer = new NoteWriter(this.plugin.app, settings);
+
+        for (const period of periods) {
+            projected = null;
+            try {
+                const result = await pipeline.summarizeChannel(target, period.start, period.end);
+                if (result.summary) {
+                    await writer.write(await pipeline.toNote(result, period.start, period.end));
+                    await this.plugin.recordCursor(result);
+                }
+            } catch (error) {
+                if (isAbortError(error) && projected && this.overBudget(projected)) {
+                    // Retrying wouldn't make it cheaper, so move on to the next period
+                    new Notice(`Scheduled summary of ${target.label || target.channelId} for ${period.start.toLocaleString()} skipped: `
+                        + `projected to cost up to ${formatCost(projected.cost)}, above the ${formatCost(settings.confirmCostAbove)} set under "Confirm runs above".`, 10000);
+                    settings.scheduleLastRuns[target.channelId] = period.end.toISOString();
+                    await this.plugin.saveSettings();
+                    continue;
+                }
+                // Leave the period due so a later check retries it
+                this.retryAfter.set(target.channelId, Date.now() + RETRY_DELAY_MS);
+                console.error('Scheduled Discord summary failed:', error);
+                new Notice(`Scheduled summary of ${target.label || target.channelId} failed: ${describeError(error)}`);
+                return;
+            }
+
+            settings.scheduleLastRuns[target.channelId] = period.end.toISOString();
+            await this.plugin.saveSettings();
+        }
+    }
+
+    private overBudget(estimate: CostEstimate): boolean {
+        const threshold = this.plugin.settings.confirmCostAbove;
+        // Models without a known price can't be compared against the threshold
+        return threshold > 0 && estimate.cost !== null && estimate.cost > threshold;
+    }
+}
@@ -0,0 +1,197 @@
+import { Platform } from 'obsidian';
+import type { DiscordSummarizerPluginSettings } from './settings';
+
+// Where tokens and API keys are kept; never in data.json
+export type SecretSource = 'encrypted' | 'environment' | 'file';
+
+export const SECRET_KEYS = ['discordToken', 'openAIKey', 'compatibleKey', 'anthropicKey'] as const;
+
+export type SecretKey = typeof SECRET_KEYS[number];
+
+export type Secrets = Record<SecretKey, string>;
+
+export const SECRET_ENV_VARS: Record<SecretKey, string> = {
+    discordToken: 'DISCORD_SUMMARIZER_DISCORD_TOKEN',
+    openAIKey: 'OPENAI_API_KEY',
+    compatibleKey: 'DISCORD_SUMMARIZER_COMPATIBLE_KEY',
+    anthropicKey: 'ANTHROPIC_API_KEY',
+};
+
+const PBKDF2_ITERATIONS = 310000;
+
+interface EncryptedBlob {
+    salt: string;
+    iv: string;
+    data: string;
+}
+
+export function pickSecrets(values: Partial<Record<SecretKey, unknown>>): Secrets {
+    const secrets = {} as Secrets;
+    for (const key of SECRET_KEYS) {
+        const value = values[key];
+        secrets[key] = typeof value === 'string' ? value : '';
+    }
+    return secrets;
+}
+
+export function hasSecrets(secrets: Secrets): boolean {
+    return SECRET_KEYS.some(key => secrets[key]);
+}
+
+/** A copy of the settings with every secret blanked, for writing to data.json. */
+export function withoutSecrets(settings: DiscordSummarizerPluginSettings): DiscordSummarizerPluginSettings {
+    const copy = { ...settings };
+    for (const key of SECRET_KEYS) {
+        copy[key] = '';
+    }
+    return copy;
+}
+
+function toBase64(bytes: Uint8Array): string {
+    return btoa(String.fromCharCode(...Array.from(bytes)));
+}
+
+function fromBase64(value: string): Uint8Array {
+    return Uint8Array.from(atob(value), char => char.charCodeAt(0));
+}
+
+/**
+ * Keeps secrets outside the vault: AES-GCM encrypted in this device's local
+ * storage with a key derived from a passphrase, or read from environment
+ * variables or a file on desktop.
+ */
+export class SecretStore {
+    private storageKey: string;
+    // Derived from the passphrase; only kept in memory
+    private key: CryptoKey | null = null;
+    private salt: Uint8Array | null = null;
+
+    constructor(storageKey: string) {
+        this.storageKey = storageKey;
+    }
+
+    hasEncryptedSecrets(): boolean {
+        return window.localStorage.getItem(this.storageKey) !== null;
+    }
+
+    get unlocked(): boolean {
+        return this.key !== null;
+    }
+
+    /** Whether stored secrets exist but the passphrase hasn't been entered yet. */
+    get locked(): boolean {
+        return !this.unlocked && this.hasEncryptedSecrets();
+    }
+
+    /** Decrypts the stored secrets, throwing when the passphrase is wrong. */
+    async unlock(passphrase: string): Promise<Secrets> {
+        const blob = this.readBlob();
+        if (!blob) {
+            throw new Error('No encrypted secrets are stored on this device.');
+        }
+
+        const salt = fromBase64(blob.salt);
+        const key = await this.deriveKey(passphrase, salt);
+        const secrets = await this.decrypt(blob, key).catch(() => null);
+        if (!secrets) {
+            throw new Error('Wrong passphrase.');
+        }
+
+        this.key = key;
+        this.salt = salt;
+        return secrets;
+    }
+
+    /** Decrypts the stored secrets with the passphrase entered earlier, or returns null while locked. */
+    async load(): Promise<Secrets | null> {
+        const blob = this.readBlob();
+        if (!blob || !this.key) {
+            return null;
+        }
+        return this.decrypt(blob, this.key);
+    }
+
+    /** Sets a new passphrase; the next `save` encrypts with it. */
+    async setPassphrase(passphrase: string): Promise<void> {
+        this.salt = crypto.getRandomValues(new Uint8Array(16));
+        this.key = await this.deriveKey(passphrase, this.salt);
+    }
+
+    /** Encrypts and stores the secrets. Does nothing until a passphrase is set or entered. */
+    async save(secrets: Secrets): Promise<boolean> {
+        if (!this.key || !this.salt) {
+            return false;
+        }
+
+        const iv = crypto.getRandomValues(new Uint8Array(12));
+        const data = await crypto.subtle.encrypt(
+            { name: 'AES-GCM', iv },
+            this.key,
+            new TextEncoder().encode(JSON.stringify(secrets))
+        );
+        const blob: EncryptedBlob = {
+            salt: toBase64(this.salt),
+            iv: toBase64(iv),
+            data: toBase64(new Uint8Array(data)),
+        };
+        window.localStorage.setItem(this.storageKey, JSON.stringify(blob));
+        return true;
+    }
+
+    /** Removes the stored secrets and forgets the passphrase. */
+    clear(): void {
+        window.localStorage.removeItem(this.storageKey);
+        this.key = null;
+        this.salt = null;
+    }
+
+    loadEnvironment(): Secrets {
+        if (!Platform.isDesktopApp) {
+            throw new Error('Environment variables are only available on desktop.');
+        }
+
+        const secrets = {} as Secrets;
+        for (const key of SECRET_KEYS) {
+            secrets[key] = process.env[SECRET_ENV_VARS[key]] ?? '';
+        }
+        return secrets;
+    }
+
+    /** Reads a JSON file such as `{"discordToken": "...", "openAIKey": "..."}`. */
+    async loadFile(path: string): Promise<Secrets> {
+        if (!Platform.isDesktopApp) {
+            throw new Error('Reading secrets from a file is only available on desktop.');
+        }
+        if (!path) {
+            throw new Error('Enter the path of the secrets file in the settings.');
+        }
+
+        const { readFile } = await import('fs/promises');
+        try {
+            return pickSecrets(JSON.parse(await readFile(path, 'utf8')));
+        } catch (error) {
+            throw new Error(`Could not read secrets from ${path}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    private async decrypt(blob: EncryptedBlob, key: CryptoKey): Promise<Secrets> {
+        const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(blob.iv) }, key, fromBase64(blob.data));
+        return pickSecrets(JSON.parse(new TextDecoder().decode(plaintext)));
+    }
+
+    private readBlob(): EncryptedBlob | null {
+        const raw = window.localStorage.getItem(this.storageKey);
+        return raw ? JSON.parse(raw) : null;
+    }
+
+    private async deriveKey(passphrase: string, salt: Uint8Array): Promise<CryptoKey> {
+        const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+        return crypto.subtle.deriveKey(
+            { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+            material,
+            { name: 'AES-GCM', length: 256 },
+            false,
+            ['encrypt', 'decrypt']
+        );
+    }
+}
@@ -1,12 +1,120 @@
+import { DEFAULT_TEMPLATE_ID, PromptTemplate } from './ai/prompts';
+import { AIProviderType } from './ai/types';
+import { ModelPrice, UsageRecord } from './ai/usage';
+import { createMessageFilter, MessageFilter } from './discord/filters';
+import { DiscordAuthMode } from './discord/http';
+import { createRedactionOptions, RedactionOptions } from './discord/redaction';
+import { SecretSource } from './secrets';
+
+export type OutputMode = 'cursor' | 'note';
+
+// Free-form prose from the prompt template, or structured tasks, callouts and lists
+export type SummaryStyle = 'prose' | 'extraction';
+
+export type NoteExistsBehavior = 'overwrite' | 'append' | 'version';
+
+export type ScheduleFrequency = 'off' | 'daily' | 'weekly';
+
+export interface ChannelSchedule {
+	frequency: ScheduleFrequency;
+	// Local time of day, HH:MM
+	time: string;
+	// 0 = Sunday, as in Date.getDay()
+	weekday: number;
+}
+
+export interface ChannelTarget {
+	serverId: string;
+	channelId: string;
+	// Optional display name; the Discord channel name is used when empty
+	label: string;
+	// Prompt template used for this channel; empty for the default template
+	templateId: string;
+	schedule: ChannelSchedule;
+	// Applied to the fetched messages before they are summarized
+	filter: MessageFilter;
+}
+
+export function createChannelTarget(values: Partial<ChannelTarget> = {}): ChannelTarget {
+	return {
+		serverId: '',
+		channelId: '',
+		label: '',
+		templateId: '',
+		...values,
+		schedule: {
+			frequency: 'off',
+			time: '08:00',
+			weekday: 1,
+			...values.schedule,
+		},
+		filter: createMessageFilter(values.filter),
+	};
+}
 
 export interface DiscordSummarizerPluginSettings {
 	discordApiBase: string;
 	discordRateLimitDelay: number;
 	discordChannelId: string;
 	discordServerId: string;
+	discordAuthMode: DiscordAuthMode;
+	// Secrets are only held in memory; see SecretStore
 	discordToken: string;
+	// Filter for the channel configured above
+	messageFilter: MessageFilter;
+	channelTargets: ChannelTarget[];
+	// Applied to every transcript before it is sent to the AI provider
+	redaction: RedactionOptions;
+	includeThreads: boolean;
+	maxRangeDays: number;
+	digestOverview: boolean;
+	// End of the last successfully summarized scheduled period per channel ID, as an ISO string
+	scheduleLastRuns: Record<string, string>;
+	// Newest summarized message ID per channel ID, used by incremental summaries
+	messageCursors: Record<string, string>;
+	// Days without messages per channel ID, as local YYYY-MM-DD, so rollups don't fetch them again
+	emptyDays: Record<string, string[]>;
+	promptTemplates: PromptTemplate[];
+	defaultTemplateId: string;
+	cacheEnabled: boolean;
+	// 0 disables the limit
+	cacheRetentionDays: number;
+	cacheMaxMessagesPerChannel: number;
+	archiveExportFolder: string;
+	summaryStyle: SummaryStyle;
+	// Ask for message references in prose summaries and link them to Discord
+	citeSources: boolean;
+	outputMode: OutputMode;
+	// Write summaries into the editor while they are generated, in cursor mode
+	streamOutput: boolean;
+	notePathTemplate: string;
+	// Path of raw transcript exports, without the extension
+	transcriptPathTemplate: string;
+	noteExistsBehavior: NoteExistsBehavior;
+	aiProvider: AIProviderType;
+	aiModel: string;
+	aiTemperature: number;
+	aiMaxTokens: number;
+	// Context window per `provider/model`, in tokens
+	tokenBudgets: Record<string, number>;
+	// Overrides the built-in price list, per `provider/model`
+	modelPrices: Record<string, ModelPrice>;
+	// Ask before runs projected to cost more than this, in US dollars; 0 never asks
+	confirmCostAbove: number;
+	// Run summaries requested through an obsidian:// URI without asking first
+	runUriWithoutAsking: boolean;
+	// URI callback schemes allowed besides https and obsidian, without the colon
+	callbackSchemes: string[];
+	usageRecords: UsageRecord[];
 	openAIKey: string;
 	openAIEndpoint: string;
+	compatibleKey: string;
+	compatibleEndpoint: string;
+	anthropicKey: string;
+	ollamaEndpoint: string;
+	secretSource: SecretSource;
+	// Absolute path of a JSON file with the secrets, for the 'file' source
+	secretFilePath: string;
 
 }
 
@@ -15,7 +123,46 @@ export const DEFAULT_SETTINGS: DiscordSummarizerPluginSettings = {
 	discordRateLimitDelay: 500,
 	discordChannelId: '',
 	discordServerId: '',
+	discordAuthMode: 'user',
 	discordToken: '',
+	messageFilter: createMessageFilter(),
+	channelTargets: [],
+	redaction: createRedactionOptions(),
+	includeThreads: false,
+	maxRangeDays: 7,
+	digestOverview: true,
+	scheduleLastRuns: {},
+	messageCursors: {},
+	emptyDays: {},
+	promptTemplates: [],
+	defaultTemplateId: DEFAULT_TEMPLATE_ID,
+	cacheEnabled: true,
+	cacheRetentionDays: 90,
+	cacheMaxMessagesPerChannel: 20000,
+	archiveExportFolder: 'Discord/Archive',
+	summaryStyle: 'prose',
+	citeSources: true,
+	outputMode: 'cursor',
+	streamOutput: true,
+	notePathTemplate: 'Discord/{{server}}/{{channel}}/{{start}}–{{end}}.md',
+	noteExistsBehavior: 'overwrite',
+	transcriptPathTemplate: 'Discord/{{server}}/{{channel}}/Transcript {{start}}–{{end}}',
+	aiProvider: 'openai',
+	aiModel: '',
+	aiTemperature: 0.7,
+	aiMaxTokens: 4096,
+	tokenBudgets: {},
+	modelPrices: {},
+	confirmCostAbove: 0.5,
+	runUriWithoutAsking: false,
+	callbackSchemes: [],
+	usageRecords: [],
 	openAIKey: '',
-	openAIEndpoint: 'https://api.openai.com/v1/chat/completions',
-}
\ No newline at end of file
+	openAIEndpoint: 'https://api.openai.com/v1',
+	compatibleKey: '',
+	compatibleEndpoint: 'http://localhost:1234/v1',
+	anthropicKey: '',
+	ollamaEndpoint: 'http://localhost:11434',
+	secretSource: 'encrypted',
+	secretFilePath: '',
+}
@@ -0,0 +1,268 @@
+import { App, Modal, Notice } from 'obsidian';
+import { PromptTemplate } from '../ai/prompts';
+import { TranscriptFormat, TRANSCRIPT_FORMATS } from '../output/transcriptExporter';
+import { DateUtils } from '../discord/dateUtils';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface CalendarModalOptions {
+    // Longest allowed range, in days
+    maxDays: number;
+    // Offer a per-run template choice when given
+    templates?: PromptTemplate[];
+    // Offer a choice of export format, for transcripts
+    formats?: boolean;
+    // Enables the "Since last summary" preset
+    lastSummaryAt?: Date | null;
+    // Enables the "Preview filters" button; resolves to a description of what the filters remove
+    onPreview?: (startDate: Date, endDate: Date) => Promise<string>;
+}
+
+interface Preset {
+    label: string;
+    range: () => [Date, Date];
+}
+
+function startOfDay(date: Date): Date {
+    const start = new Date(date);
+    start.setHours(0, 0, 0, 0);
+    return start;
+}
+
+function endOfDay(date: Date): Date {
+    const end = new Date(date);
+    end.setHours(23, 59, 59, 999);
+    return end;
+}
+
+/**
+ * Obsidian Plugin: Calendar Modal
+ * This plugin opens a modal with date and time controls for the start and
+ * end of the range, interpreted in the local timezone, plus quick presets.
+ */
+export class CalendarModal extends Modal {
+    private onSelectDates: (startDate: Date, endDate: Date, templateId: string, format: TranscriptFormat) => void;
+    private options: CalendarModalOptions;
+    private dateUtils = new DateUtils();
+
+    constructor(
+        app: App,
+        onSelectDates: (startDate: Date, endDate: Date, templateId: string, format: TranscriptFormat) => void,
+        options: CalendarModalOptions
+    ) {
+        super(app);
+        this.onSelectDates = onSelectDates;
+        this.options = options;
+    }
+
+    private presets(): Preset[] {
+        const presets: Preset[] = [
+            { label: 'Last 24 hours', range: () => [new Date(Date.now() - DAY_MS), new Date()] },
+            { label: 'Today', range: () => [startOfDay(new Date()), new Date()] },
+            {
+                label: 'Yesterday',
+                range: () => {
+                    const yesterday = new Date();
+                    yesterday.setDate(yesterday.getDate() - 1);
+                    return [startOfDay(yesterday), endOfDay(yesterday)];
+                },
+            },
+            {
+                label: 'This week',
+                range: () => {
+                    // Weeks start on Monday
+                    const monday = startOfDay(new Date());
+                    monday.setDate(monday.getDate() - ((monday.getDay() + 6) % 7));
+                    return [monday, new Date()];
+                },
+            },
+        ];
+
+        const lastSummaryAt = this.options.lastSummaryAt;
+        if (lastSummaryAt) {
+            presets.push({ label: 'Since last summary', range: () => [lastSummaryAt, new Date()] });
+        }
+        return presets;
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+
+        // Add a title to the modal
+        contentEl.createEl('h2', {
+            text: 'Select date range',
+            cls: 'calendar-modal-title',
+        });
+
+        const presetContainer = contentEl.createEl('div', {
+            cls: 'calendar-modal-presets',
+        });
+
+        // Add a wrapper for the calendar controls
+        const wrapper = contentEl.createEl('div', {
+            cls: 'calendar-modal-wrapper',
+        });
+
+        const today = this.dateUtils.dateToLocalString(new Date()).split('T')[0];
+        const createPicker = (label: string, defaultTime: string) => {
+            const container = wrapper.createEl('div', {
+                cls: 'calendar-modal-date-container',
+            });
+            container.createEl('label', {
+                text: label,
+                cls: 'calendar-modal-label',
+            });
+            const date = container.createEl('input', {
+                type: 'date',
+                cls: 'calendar-modal-input',
+                attr: { max: today },
+            });
+            const time = container.createEl('input', {
+                type: 'time',
+                cls: 'calendar-modal-input',
+                value: defaultTime,
+            });
+            return { date, time };
+        };
+
+        const startPicker = createPicker('Start', '00:00');
+        // The end time defaults to the last minute of the day so the whole end day is included
+        const endPicker = createPicker('End', '23:59');
+
+        const setPicker = (picker: { date: HTMLInputElement; time: HTMLInputElement }, value: Date) => {
+            const [date, time] = this.dateUtils.dateToLocalString(value).split('T');
+            picker.date.value = date;
+            picker.time.value = time;
+        };
+
+        for (const preset of this.presets()) {
+            const button = presetContainer.createEl('button', { text: preset.label });
+            button.addEventListener('click', () => {
+                const [start, end] = preset.range();
+                setPicker(startPicker, start);
+                setPicker(endPicker, end);
+            });
+        }
+
+        let templatePicker: HTMLSelectElement | null = null;
+        const templates = this.options.templates ?? [];
+        if (templates.length > 0) {
+            const templateContainer = contentEl.createEl('div', {
+                cls: 'calendar-modal-date-container calendar-modal-template',
+            });
+            templateContainer.createEl('label', {
+                text: 'Prompt template',
+                cls: 'calendar-modal-label',
+            });
+            templatePicker = templateContainer.createEl('select', {
+                cls: 'dropdown calendar-modal-input',
+            });
+            templatePicker.createEl('option', { text: 'Channel default', value: '' });
+            for (const template of templates) {
+                templatePicker.createEl('option', { text: template.name, value: template.id });
+            }
+        }
+
+        let formatPicker: HTMLSelectElement | null = null;
+        if (this.options.formats) {
+            const formatContainer = contentEl.createEl('div', {
+                cls: 'calendar-modal-date-container calendar-modal-template',
+            });
+            formatContainer.createEl('label', {
+                text: 'Format',
+                cls: 'calendar-modal-label',
+            });
+            formatPicker = formatContainer.createEl('select', {
+                cls: 'dropdown calendar-modal-input',
+            });
+            for (const [format, name] of Object.entries(TRANSCRIPT_FORMATS)) {
+                formatPicker.createEl('option', { text: name, value: format });
+            }
+        }
+
+        // Add a confirm button
+        const buttonContainer = contentEl.createEl('div', {
+            cls: 'calendar-modal-button-container',
+        });
+
+        const readRange = (): [Date, Date] | null => {
+            if (!startPicker.date.value || !endPicker.date.value) {
+                new Notice('Please select both a start and an end date.');
+                return null;
+            }
+
+            const start = this.dateUtils.localStringToUTC(`${startPicker.date.value}T${startPicker.time.value || '00:00'}`);
+            const end = this.dateUtils.localStringToUTC(`${endPicker.date.value}T${endPicker.time.value || '23:59'}`);
+            if (!start || !end) {
+                new Notice('Please enter valid dates and times.');
+                return null;
+            }
+
+            // Minute precision from the picker; include all of the final minute
+            end.setSeconds(59, 999);
+
+            const timeSpan = (end.getTime() - start.getTime()) / DAY_MS;
+
+            if (timeSpan < 0) {
+                new Notice('End must be after start.');
+                return null;
+            }
+
+            if (timeSpan > this.options.maxDays) {
+                new Notice(`Please select a time span of ${this.options.maxDays} days or less.`);
+                return null;
+            }
+            return [start, end];
+        };
+
+        const onPreview = this.options.onPreview;
+        if (onPreview) {
+            const previewButton = buttonContainer.createEl('button', {
+                text: 'Preview filters',
+                cls: 'calendar-modal-button',
+            });
+            const previewEl = contentEl.createEl('p', { cls: 'calendar-modal-preview' });
+            previewButton.addEventListener('click', async () => {
+                const range = readRange();
+                if (!range) {
+                    return;
+                }
+                previewButton.disabled = true;
+                previewEl.setText('Fetching messages…');
+                try {
+                    previewEl.setText(await onPreview(range[0], range[1]));
+                } catch (error) {
+                    previewEl.setText(`Preview failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+                } finally {
+                    previewButton.disabled = false;
+                }
+            });
+        }
+
+        const confirmButton = buttonContainer.createEl('button', {
+            text: 'Confirm',
+            cls: 'calendar-modal-button',
+        });
+        confirmButton.addEventListener('click', () => {
+            const range = readRange();
+            if (!range) {
+                return;
+            }
+
+            this.onSelectDates(range[0], range[1], templatePicker?.value ?? '', (formatPicker?.value ?? 'markdown') as TranscriptFormat);
+            this.close();
+        });
+
+        // Add some instructions
+        contentEl.createEl('p', {
+            text: `Pick a preset or select a start and end in your local time, ensuring the range is ${this.options.maxDays} days or less, then click "Confirm". Future dates are disabled.`,
+            cls: 'calendar-modal-instructions',
+        });
+    }
+
+    onClose(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+
+}
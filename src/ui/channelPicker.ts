@@ -0,0 +1,152 @@
+import { App, FuzzyMatch, FuzzySuggestModal, Notice } from 'obsidian';
+import { Discord, GuildChannel, GuildMember, UserGuild } from '../discord/discord';
+import { canReadChannel, ChannelType, SUMMARIZABLE_TYPES } from '../discord/permissions';
+import { DiscordSummarizerPluginSettings } from '../settings';
+
+export interface PickedChannel {
+    guild: UserGuild;
+    channel: GuildChannel;
+}
+
+interface ChannelOption {
+    channel: GuildChannel;
+    category: string;
+    readable: boolean;
+}
+
+class GuildSuggestModal extends FuzzySuggestModal<UserGuild> {
+    private guilds: UserGuild[];
+    private onChoose: (guild: UserGuild) => void;
+
+    constructor(app: App, guilds: UserGuild[], onChoose: (guild: UserGuild) => void) {
+        super(app);
+        this.guilds = guilds;
+        this.onChoose = onChoose;
+        this.setPlaceholder('Select a Discord server');
+    }
+
+    getItems(): UserGuild[] {
+        return this.guilds;
+    }
+
+    getItemText(guild: UserGuild): string {
+        return guild.name;
+    }
+
+    onChooseItem(guild: UserGuild): void {
+        this.onChoose(guild);
+    }
+}
+
+class ChannelSuggestModal extends FuzzySuggestModal<ChannelOption> {
+    private options: ChannelOption[];
+    private onChoose: (channel: GuildChannel) => void;
+
+    constructor(app: App, guild: UserGuild, options: ChannelOption[], onChoose: (channel: GuildChannel) => void) {
+        super(app);
+        this.options = options;
+        this.onChoose = onChoose;
+        this.setPlaceholder(`Select a channel in ${guild.name}`);
+    }
+
+    getItems(): ChannelOption[] {
+        return this.options;
+    }
+
+    getItemText(option: ChannelOption): string {
+        return `${option.category} ${option.channel.name}`;
+    }
+
+    renderSuggestion(match: FuzzyMatch<ChannelOption>, el: HTMLElement): void {
+        const { channel, category, readable } = match.item;
+        el.addClass('channel-picker-item');
+        if (!readable) {
+            el.addClass('channel-picker-denied');
+        }
+
+        const prefix = channel.type === ChannelType.GUILD_FORUM ? '💬 ' : channel.type === ChannelType.GUILD_ANNOUNCEMENT ? '📢 ' : '#';
+        el.createDiv({ text: `${prefix}${channel.name}${readable ? '' : ' (no access)'}` });
+        if (category) {
+            el.createEl('small', { text: category, cls: 'channel-picker-category' });
+        }
+    }
+
+    onChooseItem(option: ChannelOption): void {
+        if (!option.readable) {
+            new Notice(`You don't have permission to read #${option.channel.name}.`);
+            return;
+        }
+        this.onChoose(option.channel);
+    }
+}
+
+/**
+ * Orders channels the way the Discord sidebar does: uncategorized first,
+ * then each category by position, channels by position inside it.
+ */
+function toChannelOptions(guild: UserGuild, channels: GuildChannel[], member: GuildMember | null): ChannelOption[] {
+    const categories = new Map(
+        channels
+            .filter(channel => channel.type === ChannelType.GUILD_CATEGORY)
+            .map(channel => [channel.id, channel])
+    );
+    const categoryPosition = (channel: GuildChannel) =>
+        channel.parent_id ? categories.get(channel.parent_id)?.position ?? -1 : -1;
+
+    return channels
+        .filter(channel => SUMMARIZABLE_TYPES.includes(channel.type))
+        .sort((a, b) => categoryPosition(a) - categoryPosition(b) || a.position - b.position)
+        .map(channel => ({
+            channel,
+            category: channel.parent_id ? categories.get(channel.parent_id)?.name ?? '' : '',
+            readable: canReadChannel(guild, channel, member),
+        }));
+}
+
+/**
+ * Lets the user pick a server and then one of its channels, using the
+ * Discord token from the settings.
+ */
+export async function openChannelPicker(
+    app: App,
+    settings: DiscordSummarizerPluginSettings,
+    onPick: (picked: PickedChannel) => void
+): Promise<void> {
+    if (!settings.discordToken) {
+        new Notice('Enter a Discord token in the settings first.');
+        return;
+    }
+
+    const client = new Discord(settings.discordApiBase, settings.discordAuthMode, settings.discordRateLimitDelay);
+
+    let guilds: UserGuild[];
+    try {
+        guilds = await client.fetchUserGuilds(settings.discordToken);
+    } catch (error) {
+        new Notice(error instanceof Error ? error.message : 'Failed to fetch Discord servers.');
+        return;
+    }
+
+    new GuildSuggestModal(app, guilds, async (guild) => {
+        let channels: GuildChannel[];
+        try {
+            channels = await client.fetchGuildChannels(guild.id, settings.discordToken);
+        } catch (error) {
+            new Notice(error instanceof Error ? error.message : 'Failed to fetch channels.');
+            return;
+        }
+
+        // Role overwrites can only be applied when we know the user's roles
+        let member: GuildMember | null = null;
+        try {
+            await client.delay(settings.discordRateLimitDelay);
+            member = await client.fetchCurrentMember(guild.id, settings.discordToken);
+        } catch (error) {
+            console.warn('Could not fetch guild member, channel permissions may be inaccurate:', error);
+        }
+
+        new ChannelSuggestModal(app, guild, toChannelOptions(guild, channels, member), (channel) => {
+            onPick({ guild, channel });
+        }).open();
+    }).open();
+}
@@ -0,0 +1,104 @@
+import { Discord, GuildChannel, GuildMember, User, UserGuild } from '../discord/discord';
+import { canReadChannel, SUMMARIZABLE_TYPES } from '../discord/permissions';
+import { DiscordSummarizerPluginSettings } from '../settings';
+
+// Each server costs three requests, so large accounts are only sampled
+const MAX_CHECKED_GUILDS = 10;
+
+interface GuildAccess {
+    guild: UserGuild;
+    readable: GuildChannel[];
+    channelCount: number;
+    error?: string;
+}
+
+export interface ConnectionReport {
+    user: User;
+    guilds: GuildAccess[];
+    // Servers beyond MAX_CHECKED_GUILDS that weren't checked
+    uncheckedGuilds: number;
+}
+
+/**
+ * Calls the Discord API with the configured token and works out which
+ * servers and channels that identity can read.
+ */
+export async function checkConnection(settings: DiscordSummarizerPluginSettings): Promise<ConnectionReport> {
+    const client = new Discord(settings.discordApiBase, settings.discordAuthMode, settings.discordRateLimitDelay);
+    const token = settings.discordToken;
+
+    const user = await client.fetchCurrentUser(token);
+    await client.delay(settings.discordRateLimitDelay);
+    const allGuilds = await client.fetchUserGuilds(token);
+
+    const guilds: GuildAccess[] = [];
+    for (const guild of allGuilds.slice(0, MAX_CHECKED_GUILDS)) {
+        await client.delay(settings.discordRateLimitDelay);
+        try {
+            const channels = await client.fetchGuildChannels(guild.id, token);
+
+            let member: GuildMember | null = null;
+            try {
+                await client.delay(settings.discordRateLimitDelay);
+                member = await client.fetchCurrentMember(guild.id, token);
+            } catch (error) {
+                console.warn('Could not fetch guild member, channel permissions may be inaccurate:', error);
+            }
+
+            const summarizable = channels.filter(channel => SUMMARIZABLE_TYPES.includes(channel.type));
+            guilds.push({
+                guild,
+                readable: summarizable.filter(channel => canReadChannel(guild, channel, member)),
+                channelCount: summarizable.length,
+            });
+        } catch (error) {
+            guilds.push({
+                guild,
+                readable: [],
+                channelCount: 0,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            });
+        }
+    }
+
+    return { user, guilds, uncheckedGuilds: Math.max(0, allGuilds.length - MAX_CHECKED_GUILDS) };
+}
+
+export function renderConnectionReport(containerEl: HTMLElement, report: ConnectionReport): void {
+    containerEl.empty();
+
+    const name = report.user.global_name || report.user.username;
+    containerEl.createEl('p', {
+        text: `Connected as ${name}${report.user.bot ? ' (bot)' : ''}. Readable channels per server:`,
+    });
+
+    if (report.guilds.length === 0) {
+        containerEl.createEl('p', {
+            text: report.user.bot
+                ? 'The bot has not been added to any server yet.'
+                : 'This account is not a member of any server.',
+        });
+        return;
+    }
+
+    for (const access of report.guilds) {
+        const details = containerEl.createEl('details');
+        details.createEl('summary', {
+            text: access.error
+                ? `${access.guild.name}: ${access.error}`
+                : `${access.guild.name}: ${access.readable.length} of ${access.channelCount} channels`,
+        });
+
+        const list = details.createEl('ul');
+        for (const channel of access.readable) {
+            list.createEl('li', { text: `#${channel.name}` });
+        }
+    }
+
+    if (report.uncheckedGuilds > 0) {
+        containerEl.createEl('p', {
+            text: `${report.uncheckedGuilds} more servers were not checked.`,
+            cls: 'setting-item-description',
+        });
+    }
+}
@@ -0,0 +1,50 @@
+import { App, Modal, Setting } from 'obsidian';
+import { CostEstimate, describeEstimate, formatCost } from '../ai/usage';
+
+class CostModal extends Modal {
+    private estimate: CostEstimate;
+    private threshold: number;
+    private onChoose: (confirmed: boolean) => void;
+    private confirmed = false;
+
+    constructor(app: App, estimate: CostEstimate, threshold: number, onChoose: (confirmed: boolean) => void) {
+        super(app);
+        this.estimate = estimate;
+        this.threshold = threshold;
+        this.onChoose = onChoose;
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+        contentEl.createEl('h2', { text: 'Continue with this summary?' });
+        contentEl.createEl('p', {
+            text: `This run is projected to cost more than ${formatCost(this.threshold)}: ${describeEstimate(this.estimate)}.`,
+        });
+        contentEl.createEl('p', {
+            text: 'The projection assumes every request uses the full "Max tokens" output, so the actual cost is usually lower.',
+            cls: 'setting-item-description',
+        });
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Cancel')
+                .onClick(() => this.close()))
+            .addButton(button => button
+                .setButtonText('Continue')
+                .setCta()
+                .onClick(() => {
+                    this.confirmed = true;
+                    this.close();
+                }));
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+        this.onChoose(this.confirmed);
+    }
+}
+
+/** Asks whether to go ahead with a run above the cost threshold; resolves to false when dismissed. */
+export function confirmCost(app: App, estimate: CostEstimate, threshold: number): Promise<boolean> {
+    return new Promise(resolve => new CostModal(app, estimate, threshold, resolve).open());
+}
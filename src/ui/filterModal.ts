@@ -0,0 +1,124 @@
+import { App, Modal, Setting } from 'obsidian';
+import { compilePattern, MessageFilter } from '../discord/filters';
+
+function parseList(value: string): string[] {
+    return value.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * Edits a channel's message filter in place, calling `onChange` after each
+ * valid change so it can be saved.
+ */
+export class FilterModal extends Modal {
+    private filter: MessageFilter;
+    private title: string;
+    private onChange: () => Promise<void>;
+
+    constructor(app: App, title: string, filter: MessageFilter, onChange: () => Promise<void>) {
+        super(app);
+        this.title = title;
+        this.filter = filter;
+        this.onChange = onChange;
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+        const filter = this.filter;
+        contentEl.createEl('h2', { text: `Message filters: ${this.title}` });
+        contentEl.createEl('p', {
+            text: 'Messages removed here are never sent to the AI provider. Use "Preview filters" in the date range dialog to see what each rule removes.',
+            cls: 'setting-item-description',
+        });
+
+        new Setting(contentEl)
+            .setName('Only these authors')
+            .setDesc('Comma-separated usernames, display names or user IDs. Leave empty to keep everyone')
+            .addText(text => text
+                .setValue(filter.includeAuthors.join(', '))
+                .onChange(async (value) => {
+                    filter.includeAuthors = parseList(value);
+                    await this.onChange();
+                }));
+
+        new Setting(contentEl)
+            .setName('Exclude authors')
+            .setDesc('Comma-separated usernames, display names or user IDs, e.g. muted users')
+            .addText(text => text
+                .setValue(filter.excludeAuthors.join(', '))
+                .onChange(async (value) => {
+                    filter.excludeAuthors = parseList(value);
+                    await this.onChange();
+                }));
+
+        new Setting(contentEl)
+            .setName('Exclude bots')
+            .addToggle(toggle => toggle
+                .setValue(filter.excludeBots)
+                .onChange(async (value) => {
+                    filter.excludeBots = value;
+                    await this.onChange();
+                }));
+
+        new Setting(contentEl)
+            .setName('Exclude system messages')
+            .setDesc('Joins, pins, boosts and other notices')
+            .addToggle(toggle => toggle
+                .setValue(filter.excludeSystem)
+                .onChange(async (value) => {
+                    filter.excludeSystem = value;
+                    await this.onChange();
+                }));
+
+        new Setting(contentEl)
+            .setName('Minimum length')
+            .setDesc('Drop messages shorter than this many characters, such as "gm". Messages with attachments or links are kept. 0 disables the rule')
+            .addText(text => text
+                .setPlaceholder('0')
+                .setValue(filter.minLength ? String(filter.minLength) : '')
+                .onChange(async (value) => {
+                    filter.minLength = Math.max(0, parseInt(value, 10) || 0);
+                    await this.onChange();
+                }));
+
+        this.addPatternSetting('Include pattern', 'Keep only messages matching this regular expression', 'includePattern');
+        this.addPatternSetting('Exclude pattern', 'Drop messages matching this regular expression, e.g. ^(gm|gn)\\b', 'excludePattern');
+
+        new Setting(contentEl)
+            .setName('Minimum reactions')
+            .setDesc('Keep only messages with at least this many reactions in total. 0 disables the rule')
+            .addText(text => text
+                .setPlaceholder('0')
+                .setValue(filter.minReactions ? String(filter.minReactions) : '')
+                .onChange(async (value) => {
+                    filter.minReactions = Math.max(0, parseInt(value, 10) || 0);
+                    await this.onChange();
+                }));
+    }
+
+    private addPatternSetting(name: string, description: string, key: 'includePattern' | 'excludePattern'): void {
+        const setting = new Setting(this.contentEl)
+            .setName(name)
+            .setDesc(description);
+
+        setting.addText(text => text
+            .setValue(this.filter[key])
+            .onChange(async (value) => {
+                try {
+                    compilePattern(value);
+                } catch (error) {
+                    // Keep the last valid pattern until this one is fixed
+                    setting.setDesc(error instanceof Error ? error.message : 'Invalid pattern');
+                    text.inputEl.addClass('filter-modal-invalid');
+                    return;
+                }
+                setting.setDesc(description);
+                text.inputEl.removeClass('filter-modal-invalid');
+                this.filter[key] = value;
+                await this.onChange();
+            }));
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+    }
+}
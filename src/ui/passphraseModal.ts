@@ -0,0 +1,77 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+
+export interface PassphraseModalOptions {
+    title: string;
+    description: string;
+    // Ask for the passphrase twice, when setting a new one
+    confirm?: boolean;
+}
+
+class PassphraseModal extends Modal {
+    private options: PassphraseModalOptions;
+    private onSubmit: (passphrase: string | null) => void;
+    private submitted = false;
+
+    constructor(app: App, options: PassphraseModalOptions, onSubmit: (passphrase: string | null) => void) {
+        super(app);
+        this.options = options;
+        this.onSubmit = onSubmit;
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+        contentEl.createEl('h2', { text: this.options.title });
+        contentEl.createEl('p', { text: this.options.description });
+
+        let passphrase = '';
+        let repeated = '';
+        const submit = () => {
+            if (!passphrase) {
+                new Notice('Please enter a passphrase.');
+                return;
+            }
+            if (this.options.confirm && passphrase !== repeated) {
+                new Notice('The passphrases don\'t match.');
+                return;
+            }
+            this.submitted = true;
+            this.onSubmit(passphrase);
+            this.close();
+        };
+
+        const addInput = (name: string, onChange: (value: string) => void) => new Setting(contentEl)
+            .setName(name)
+            .addText(text => {
+                text.inputEl.type = 'password';
+                text.onChange(onChange);
+                text.inputEl.addEventListener('keydown', (event) => {
+                    if (event.key === 'Enter') {
+                        submit();
+                    }
+                });
+            });
+
+        addInput('Passphrase', value => passphrase = value);
+        if (this.options.confirm) {
+            addInput('Repeat passphrase', value => repeated = value);
+        }
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('OK')
+                .setCta()
+                .onClick(submit));
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+        if (!this.submitted) {
+            this.onSubmit(null);
+        }
+    }
+}
+
+/** Asks for a passphrase; resolves to null when the modal is dismissed. */
+export function promptPassphrase(app: App, options: PassphraseModalOptions): Promise<string | null> {
+    return new Promise(resolve => new PassphraseModal(app, options, resolve).open());
+}
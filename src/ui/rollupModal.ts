@@ -0,0 +1,90 @@
+import { App, DropdownComponent, Modal, Setting } from 'obsidian';
+import { describePeriod, Period, recentPeriods, RollupLevel, ROLLUP_LEVELS } from '../rollup';
+import { ChannelTarget } from '../settings';
+
+// How far back the period choice goes
+const PERIOD_CHOICES: Record<RollupLevel, number> = {
+    weekly: 8,
+    monthly: 12,
+};
+
+export interface RollupChannel {
+    name: string;
+    target: ChannelTarget;
+}
+
+/** Picks the channel, the kind of rollup and the week or month to roll up. */
+export class RollupModal extends Modal {
+    private channels: RollupChannel[];
+    private onSubmit: (target: ChannelTarget, level: RollupLevel, period: Period) => void;
+
+    constructor(app: App, channels: RollupChannel[], onSubmit: (target: ChannelTarget, level: RollupLevel, period: Period) => void) {
+        super(app);
+        this.channels = channels;
+        this.onSubmit = onSubmit;
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+        contentEl.createEl('h2', { text: 'Create summary rollup' });
+        contentEl.createEl('p', {
+            text: 'Summarizes existing summary notes of the channel. Days or weeks they don\'t cover are summarized first, and get their own note once they have ended.',
+            cls: 'setting-item-description',
+        });
+
+        let channel = 0;
+        let level: RollupLevel = 'weekly';
+        let periods = recentPeriods(level, PERIOD_CHOICES[level]);
+        let period = 0;
+        let periodDropdown: DropdownComponent | null = null;
+
+        const fillPeriods = () => {
+            periods = recentPeriods(level, PERIOD_CHOICES[level]);
+            period = 0;
+            if (!periodDropdown) {
+                return;
+            }
+            periodDropdown.selectEl.empty();
+            periods.forEach((choice, i) => periodDropdown?.addOption(String(i), `${describePeriod(level, choice)}${i === 0 ? ' (so far)' : ''}`));
+            periodDropdown.setValue('0');
+        };
+
+        new Setting(contentEl)
+            .setName('Channel')
+            .addDropdown(dropdown => {
+                this.channels.forEach((choice, i) => dropdown.addOption(String(i), choice.name));
+                dropdown.onChange(value => channel = Number(value));
+            });
+
+        new Setting(contentEl)
+            .setName('Rollup')
+            .addDropdown(dropdown => dropdown
+                .addOptions(ROLLUP_LEVELS)
+                .setValue(level)
+                .onChange(value => {
+                    level = value as RollupLevel;
+                    fillPeriods();
+                }));
+
+        new Setting(contentEl)
+            .setName('Period')
+            .addDropdown(dropdown => {
+                periodDropdown = dropdown;
+                fillPeriods();
+                dropdown.onChange(value => period = Number(value));
+            });
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Create')
+                .setCta()
+                .onClick(() => {
+                    this.close();
+                    this.onSubmit(this.channels[channel].target, level, periods[period]);
+                }));
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+    }
+}
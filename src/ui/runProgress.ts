@@ -0,0 +1,95 @@
+import { Plugin } from 'obsidian';
+import { addEstimates, CostEstimate, formatCost, formatTokens } from '../ai/usage';
+import { RunHooks, RunStage } from '../progress';
+
+const STAGE_LABELS: Record<RunStage, string> = {
+    fetching: 'Fetching',
+    chunking: 'Splitting transcript',
+    summarizing: 'Summarizing',
+    writing: 'Writing',
+};
+
+/**
+ * Status bar item showing the stage, pages and messages fetched and elapsed
+ * time of a run, with a Cancel link that aborts its requests.
+ */
+export class RunProgress implements RunHooks {
+    private controller = new AbortController();
+    private el: HTMLElement;
+    private textEl: HTMLElement;
+    private timer: number;
+    private startedAt = Date.now();
+    private stage: RunStage = 'fetching';
+    private detail = '';
+    private pages = 0;
+    private messages = 0;
+    // Projected total of the channels estimated so far
+    private estimate: CostEstimate | null = null;
+    // Set by the caller when the summary is streamed into the editor
+    onToken?: (text: string) => void;
+    // Set by the caller to show estimates and ask before expensive runs
+    confirmEstimate?: (estimate: CostEstimate) => Promise<boolean>;
+
+    constructor(plugin: Plugin) {
+        this.el = plugin.addStatusBarItem();
+        this.el.addClass('discord-summarizer-progress');
+        this.textEl = this.el.createSpan();
+
+        const cancelEl = this.el.createEl('a', { text: 'Cancel', cls: 'discord-summarizer-cancel' });
+        cancelEl.addEventListener('click', () => this.cancel());
+
+        this.timer = window.setInterval(() => this.render(), 1000);
+        this.render();
+    }
+
+    get signal(): AbortSignal {
+        return this.controller.signal;
+    }
+
+    get cancelled(): boolean {
+        return this.controller.signal.aborted;
+    }
+
+    cancel(): void {
+        this.controller.abort();
+        this.finish();
+    }
+
+    onStage = (stage: RunStage, detail?: string): void => {
+        this.stage = stage;
+        this.detail = detail ?? '';
+        this.render();
+    };
+
+    onPage = (messageCount: number): void => {
+        this.pages++;
+        this.messages += messageCount;
+        this.render();
+    };
+
+    /** Adds a channel's estimate to the run's and returns the run's total so far. */
+    addEstimate(estimate: CostEstimate): CostEstimate {
+        this.estimate = this.estimate ? addEstimates(this.estimate, estimate) : estimate;
+        this.render();
+        return this.estimate;
+    }
+
+    finish(): void {
+        window.clearInterval(this.timer);
+        this.el.remove();
+    }
+
+    private render(): void {
+        const elapsed = Math.floor((Date.now() - this.startedAt) / 1000);
+        const parts = [
+            `${STAGE_LABELS[this.stage]}${this.detail ? ` (${this.detail})` : ''}`,
+            `${this.pages} pages, ${this.messages} messages`,
+        ];
+        if (this.estimate) {
+            const cost = this.estimate.cost === null ? formatCost(null) : `up to ${formatCost(this.estimate.cost)}`;
+            parts.push(`~${formatTokens(this.estimate.inputTokens)} tokens, ${cost}`);
+        }
+        parts.push(`${Math.floor(elapsed / 60)}:${String(elapsed % 60).padStart(2, '0')}`);
+        this.textEl.setText(`Discord: ${parts.join(' · ')}`);
+    }
+}
@@ -0,0 +1,1059 @@
+import { App, Notice, PluginSettingTab, Setting, TextComponent, setIcon } from 'obsidian';
+import type DiscordSummarizerPlugin from '../main';
+import { allTemplates, findTemplate, TEMPLATE_VARIABLES } from '../ai/prompts';
+import { DEFAULT_MODELS, PROVIDER_NAMES, resolveTokenBudget, tokenBudgetKey } from '../ai/provider';
+import { AIProviderType } from '../ai/types';
+import { formatCost, formatTokens, resolvePrice, summarizeUsage, UsageTotals } from '../ai/usage';
+import { DateUtils } from '../discord/dateUtils';
+import { DiscordAuthMode } from '../discord/http';
+import { compileRedactionPattern, PII_DETECTOR_NAMES, PiiDetector } from '../discord/redaction';
+import { describeError } from '../errors';
+import { SECRET_ENV_VARS, SECRET_KEYS, SecretSource } from '../secrets';
+import { ArchiveExporter, ArchiveFormat } from '../output/archiveExporter';
+import { ChannelTarget, createChannelTarget, DEFAULT_SETTINGS, NoteExistsBehavior, OutputMode, ScheduleFrequency, SummaryStyle } from '../settings';
+import { openChannelPicker } from './channelPicker';
+import { FilterModal } from './filterModal';
+import { promptPassphrase } from './passphraseModal';
+import { checkConnection, renderConnectionReport } from './connectionCheck';
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export class SettingTab extends PluginSettingTab {
+	plugin: DiscordSummarizerPlugin;
+
+	constructor(app: App, plugin: DiscordSummarizerPlugin) {
+		super(app, plugin);
+		this.plugin = plugin;
+	}
+
+	display(): void {
+		const {containerEl} = this;
+
+		containerEl.empty();
+
+		new Setting(containerEl)
+			.setName('Discord channel id')
+			.setDesc('ID of Discord channel to summarize')
+			.addText(text => text
+				.setPlaceholder('Enter channel ID')
+				.setValue(this.plugin.settings.discordChannelId)
+				.onChange(async (value) => {
+					this.plugin.settings.discordChannelId = value;
+					await this.plugin.saveSettings();
+				}))
+			.addButton(button => button
+				.setButtonText('Browse')
+				.setTooltip('Pick a server and channel from your Discord account')
+				.onClick(() => openChannelPicker(this.app, this.plugin.settings, async ({ guild, channel }) => {
+					this.plugin.settings.discordServerId = guild.id;
+					this.plugin.settings.discordChannelId = channel.id;
+					await this.plugin.saveSettings();
+					this.display();
+				})));
+
+		new Setting(containerEl)
+			.setName('Discord server id')
+			.setDesc('ID of Discord server')
+			.addText(text => text
+				.setPlaceholder('Enter server ID')
+				.setValue(this.plugin.settings.discordServerId)
+				.onChange(async (value) => {
+					this.plugin.settings.discordServerId = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Message filters')
+			.setDesc('Drop bots, system notices, short chatter or specific authors before summarizing this channel')
+			.addButton(button => button
+				.setButtonText('Edit')
+				.onClick(() => new FilterModal(this.app, 'default channel', this.plugin.settings.messageFilter, () => this.plugin.saveSettings()).open()));
+
+		const botMode = this.plugin.settings.discordAuthMode === 'bot';
+		// Tokens and keys come from elsewhere, or can't be saved until unlocked
+		const secretsReadOnly = this.plugin.settings.secretSource !== 'encrypted' || this.plugin.secretsLocked;
+
+		new Setting(containerEl)
+			.setName('Authentication')
+			.setDesc('A bot token needs the bot to be added to each server, with the Message Content intent enabled in the Discord Developer Portal. Using a user token is against Discord\'s terms of service')
+			.addDropdown(dropdown => dropdown
+				.addOptions({
+					user: 'User token',
+					bot: 'Bot token',
+				})
+				.setValue(this.plugin.settings.discordAuthMode)
+				.onChange(async (value) => {
+					this.plugin.settings.discordAuthMode = value as DiscordAuthMode;
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		new Setting(containerEl)
+			.setName(botMode ? 'Bot token' : 'Discord token')
+			.setDesc(botMode
+				? 'Token from the Bot page of your application. The "Bot " prefix is added automatically'
+				: 'Authentication token for discord')
+			.addText(text => { 
+				wrapTextWithPasswordHide(text); 
+				text
+				.setPlaceholder('Enter Discord token')
+				.setValue(this.plugin.settings.discordToken)
+				.onChange(async (value) => {
+					this.plugin.settings.discordToken = value;
+					await this.plugin.saveSettings();
+				});
+				text.inputEl.addClass('settings-long-input');
+				text.setDisabled(secretsReadOnly);
+			});
+
+		let reportEl: HTMLElement;
+		new Setting(containerEl)
+			.setName('Check connection')
+			.setDesc('Calls Discord with this token and lists the servers and channels it can read')
+			.addButton(button => button
+				.setButtonText('Check')
+				.onClick(async () => {
+					if (!this.plugin.settings.discordToken) {
+						new Notice('Enter a Discord token first.');
+						return;
+					}
+					button.setDisabled(true);
+					reportEl.setText('Checking…');
+					try {
+						renderConnectionReport(reportEl, await checkConnection(this.plugin.settings));
+					} catch (error) {
+						reportEl.setText(describeError(error));
+					} finally {
+						button.setDisabled(false);
+					}
+				}));
+		reportEl = containerEl.createDiv({ cls: 'connection-check-report' });
+
+		new Setting(containerEl)
+			.setName('Include threads')
+			.setDesc('Also summarize threads and forum posts with activity in the selected range, each in its own subsection. Needs extra requests to Discord')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.includeThreads)
+				.onChange(async (value) => {
+					this.plugin.settings.includeThreads = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Maximum range')
+			.setDesc('Longest date range that can be selected for one summary, in days')
+			.addText(text => text
+				.setPlaceholder(String(DEFAULT_SETTINGS.maxRangeDays))
+				.setValue(String(this.plugin.settings.maxRangeDays))
+				.onChange(async (value) => {
+					const parsed = parseInt(value, 10);
+					this.plugin.settings.maxRangeDays = parsed > 0 ? parsed : DEFAULT_SETTINGS.maxRangeDays;
+					await this.plugin.saveSettings();
+				}));
+
+		containerEl.createEl('h3', { text: 'Output' });
+
+		new Setting(containerEl)
+			.setName('Output mode')
+			.setDesc('Where summaries are written. Without an open note, summaries always go to a dedicated note')
+			.addDropdown(dropdown => dropdown
+				.addOptions({
+					cursor: 'Insert at cursor',
+					note: 'Dedicated note',
+				})
+				.setValue(this.plugin.settings.outputMode)
+				.onChange(async (value) => {
+					this.plugin.settings.outputMode = value as OutputMode;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Stream into the note')
+			.setDesc('When inserting at the cursor, write the summary as it is generated. Cancelled or failed runs keep the partial text, marked as incomplete')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.streamOutput)
+				.onChange(async (value) => {
+					this.plugin.settings.streamOutput = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Summary style')
+			.setDesc('Prose follows the prompt template. Structured extraction lists action items as tasks, decisions and open questions as callouts, and shared links and mentioned tickers, each linking to its Discord message')
+			.addDropdown(dropdown => dropdown
+				.addOptions({
+					prose: 'Prose',
+					extraction: 'Structured extraction',
+				})
+				.setValue(this.plugin.settings.summaryStyle)
+				.onChange(async (value) => {
+					this.plugin.settings.summaryStyle = value as SummaryStyle;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Cite sources')
+			.setDesc('Have the model cite the messages behind each point, linked to Discord. Citations that don\'t match a fetched message are flagged')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.citeSources)
+				.onChange(async (value) => {
+					this.plugin.settings.citeSources = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Note path')
+			.setDesc('Path of summary notes. Available variables: {{server}}, {{channel}}, {{server_id}}, {{channel_id}}, {{start}}, {{end}}')
+			.addText(text => {
+				text
+				.setPlaceholder(DEFAULT_SETTINGS.notePathTemplate)
+				.setValue(this.plugin.settings.notePathTemplate)
+				.onChange(async (value) => {
+					this.plugin.settings.notePathTemplate = value || DEFAULT_SETTINGS.notePathTemplate;
+					await this.plugin.saveSettings();
+				});
+				text.inputEl.addClass('settings-long-input');
+			});
+
+		new Setting(containerEl)
+			.setName('Transcript path')
+			.setDesc('Path of transcripts written by "Export transcript of Discord channel", without the extension. Same variables as the note path')
+			.addText(text => {
+				text
+				.setPlaceholder(DEFAULT_SETTINGS.transcriptPathTemplate)
+				.setValue(this.plugin.settings.transcriptPathTemplate)
+				.onChange(async (value) => {
+					this.plugin.settings.transcriptPathTemplate = value || DEFAULT_SETTINGS.transcriptPathTemplate;
+					await this.plugin.saveSettings();
+				});
+				text.inputEl.addClass('settings-long-input');
+			});
+
+		new Setting(containerEl)
+			.setName('When the note exists')
+			.setDesc('What to do when a summary note already exists at that path')
+			.addDropdown(dropdown => dropdown
+				.addOptions({
+					overwrite: 'Overwrite',
+					append: 'Append',
+					version: 'Create a new version',
+				})
+				.setValue(this.plugin.settings.noteExistsBehavior)
+				.onChange(async (value) => {
+					this.plugin.settings.noteExistsBehavior = value as NoteExistsBehavior;
+					await this.plugin.saveSettings();
+				}));
+
+		this.displayRedaction(containerEl);
+
+		containerEl.createEl('h3', { text: 'Digest channels' });
+
+		new Setting(containerEl)
+			.setName('Cross-channel overview')
+			.setDesc('Start each digest with a short "what mattered most" section covering all channels')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.digestOverview)
+				.onChange(async (value) => {
+					this.plugin.settings.digestOverview = value;
+					await this.plugin.saveSettings();
+				}));
+
+		this.plugin.settings.channelTargets.forEach((target, index) => {
+			this.displayChannelTarget(containerEl, target, index);
+		});
+
+		new Setting(containerEl)
+			.setDesc('Channels included in the "Get digest of configured Discord channels" command')
+			.addButton(button => button
+				.setButtonText('Add channel')
+				.onClick(async () => {
+					this.plugin.settings.channelTargets.push(createChannelTarget());
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		this.displayPromptTemplates(containerEl);
+		this.displayMessageCursors(containerEl);
+		this.displayMessageCache(containerEl);
+		this.displayScripting(containerEl);
+
+		containerEl.createEl('h3', { text: 'AI provider' });
+
+		new Setting(containerEl)
+			.setName('Provider')
+			.setDesc('Service used to generate summaries')
+			.addDropdown(dropdown => dropdown
+				.addOptions(PROVIDER_NAMES)
+				.setValue(this.plugin.settings.aiProvider)
+				.onChange(async (value) => {
+					this.plugin.settings.aiProvider = value as AIProviderType;
+					await this.plugin.saveSettings();
+					// Redraw so only the fields for the selected provider are shown
+					this.display();
+				}));
+
+		switch (this.plugin.settings.aiProvider) {
+			case 'openai':
+				new Setting(containerEl)
+					.setName('OpenAI key')
+					.setDesc('Authentication key for OpenAI')
+					.addText(text => { 
+						wrapTextWithPasswordHide(text);
+						text
+						.setPlaceholder('Enter OpenAI key')
+						.setValue(this.plugin.settings.openAIKey)
+						.onChange(async (value) => {
+							this.plugin.settings.openAIKey = value;
+							await this.plugin.saveSettings();
+						});
+						text.inputEl.addClass('settings-long-input');
+						text.setDisabled(secretsReadOnly);
+					});
+
+				new Setting(containerEl)
+					.setName('OpenAI endpoint')
+					.setDesc('Base URL of the OpenAI API')
+					.addText(text => text
+						.setPlaceholder('https://api.openai.com/v1')
+						.setValue(this.plugin.settings.openAIEndpoint)
+						.onChange(async (value) => {
+							this.plugin.settings.openAIEndpoint = value;
+							await this.plugin.saveSettings();
+						}));
+				break;
+
+			case 'openai-compatible':
+				new Setting(containerEl)
+					.setName('Base URL')
+					.setDesc('Base URL of an OpenAI-compatible server, e.g. LM Studio or vLLM')
+					.addText(text => text
+						.setPlaceholder('http://localhost:1234/v1')
+						.setValue(this.plugin.settings.compatibleEndpoint)
+						.onChange(async (value) => {
+							this.plugin.settings.compatibleEndpoint = value;
+							await this.plugin.saveSettings();
+						}));
+
+				new Setting(containerEl)
+					.setName('API key')
+					.setDesc('Leave empty if the server does not require one')
+					.addText(text => { 
+						wrapTextWithPasswordHide(text);
+						text
+						.setPlaceholder('Enter API key')
+						.setValue(this.plugin.settings.compatibleKey)
+						.onChange(async (value) => {
+							this.plugin.settings.compatibleKey = value;
+							await this.plugin.saveSettings();
+						});
+						text.inputEl.addClass('settings-long-input');
+						text.setDisabled(secretsReadOnly);
+					});
+				break;
+
+			case 'anthropic':
+				new Setting(containerEl)
+					.setName('Anthropic key')
+					.setDesc('Authentication key for Anthropic')
+					.addText(text => { 
+						wrapTextWithPasswordHide(text);
+						text
+						.setPlaceholder('Enter Anthropic key')
+						.setValue(this.plugin.settings.anthropicKey)
+						.onChange(async (value) => {
+							this.plugin.settings.anthropicKey = value;
+							await this.plugin.saveSettings();
+						});
+						text.inputEl.addClass('settings-long-input');
+						text.setDisabled(secretsReadOnly);
+					});
+				break;
+
+			case 'ollama':
+				new Setting(containerEl)
+					.setName('Ollama URL')
+					.setDesc('Address of the local Ollama server')
+					.addText(text => text
+						.setPlaceholder('http://localhost:11434')
+						.setValue(this.plugin.settings.ollamaEndpoint)
+						.onChange(async (value) => {
+							this.plugin.settings.ollamaEndpoint = value;
+							await this.plugin.saveSettings();
+						}));
+				break;
+		}
+
+		new Setting(containerEl)
+			.setName('Model')
+			.setDesc('Model name; leave empty to use the provider default')
+			.addText(text => text
+				.setPlaceholder(DEFAULT_MODELS[this.plugin.settings.aiProvider])
+				.setValue(this.plugin.settings.aiModel)
+				.onChange(async (value) => {
+					this.plugin.settings.aiModel = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Temperature')
+			.setDesc('Lower values give more focused, deterministic summaries')
+			.addSlider(slider => slider
+				.setLimits(0, 2, 0.1)
+				.setValue(this.plugin.settings.aiTemperature)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.aiTemperature = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Context window')
+			.setDesc(`Token budget for ${tokenBudgetKey(this.plugin.settings)}. Longer conversations are summarized in parts and then merged`)
+			.addText(text => text
+				.setPlaceholder(String(resolveTokenBudget(this.plugin.settings)))
+				.setValue(this.plugin.settings.tokenBudgets[tokenBudgetKey(this.plugin.settings)]?.toString() ?? '')
+				.onChange(async (value) => {
+					const key = tokenBudgetKey(this.plugin.settings);
+					const parsed = parseInt(value, 10);
+					if (parsed > 0) {
+						this.plugin.settings.tokenBudgets[key] = parsed;
+					} else {
+						delete this.plugin.settings.tokenBudgets[key];
+					}
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Max tokens')
+			.setDesc('Maximum length of the generated summary, in tokens')
+			.addText(text => text
+				.setPlaceholder(String(DEFAULT_SETTINGS.aiMaxTokens))
+				.setValue(String(this.plugin.settings.aiMaxTokens))
+				.onChange(async (value) => {
+					const parsed = parseInt(value, 10);
+					this.plugin.settings.aiMaxTokens = parsed > 0 ? parsed : DEFAULT_SETTINGS.aiMaxTokens;
+					await this.plugin.saveSettings();
+				}));
+
+		this.displayCost(containerEl);
+		this.displaySecretStorage(containerEl);
+	}
+
+	private displayRedaction(containerEl: HTMLElement): void {
+		containerEl.createEl('h3', { text: 'Privacy' });
+		const redaction = this.plugin.settings.redaction;
+
+		new Setting(containerEl)
+			.setName('Pseudonymize people')
+			.setDesc('Replace the names of authors and mentioned users with User A, User B, ... before the transcript is sent to the AI provider. A person keeps the same pseudonym for the whole run')
+			.addToggle(toggle => toggle
+				.setValue(redaction.pseudonymize)
+				.onChange(async (value) => {
+					redaction.pseudonymize = value;
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		if (redaction.pseudonymize) {
+			new Setting(containerEl)
+				.setName('Restore real names in the note')
+				.setDesc('Put the real names back in place of the pseudonyms once the summary has been generated. The provider still only sees pseudonyms')
+				.addToggle(toggle => toggle
+					.setValue(redaction.restoreNames)
+					.onChange(async (value) => {
+						redaction.restoreNames = value;
+						await this.plugin.saveSettings();
+					}));
+		}
+
+		for (const detector of Object.keys(PII_DETECTOR_NAMES) as PiiDetector[]) {
+			new Setting(containerEl)
+				.setName(`Mask ${PII_DETECTOR_NAMES[detector].toLowerCase()}`)
+				.setDesc(`Replaced with [${detector}] in the transcript`)
+				.addToggle(toggle => toggle
+					.setValue(redaction.detectors.includes(detector))
+					.onChange(async (value) => {
+						redaction.detectors = value
+							? [...redaction.detectors, detector]
+							: redaction.detectors.filter(candidate => candidate !== detector);
+						await this.plugin.saveSettings();
+					}));
+		}
+
+		const description = 'Regular expressions, one per line, matched case-insensitively. Matches are replaced with [redacted]';
+		const patterns = new Setting(containerEl)
+			.setName('Custom patterns')
+			.setDesc(description);
+		patterns.addTextArea(text => {
+			text
+				.setPlaceholder('\\bPROJ-\\d+\\b')
+				.setValue(redaction.patterns.join('\n'))
+				.onChange(async (value) => {
+					const lines = value.split('\n').filter(line => line.trim());
+					try {
+						lines.forEach(compileRedactionPattern);
+					} catch (error) {
+						// Keep the last valid patterns until this one is fixed
+						patterns.setDesc(describeError(error));
+						text.inputEl.addClass('filter-modal-invalid');
+						return;
+					}
+					patterns.setDesc(description);
+					text.inputEl.removeClass('filter-modal-invalid');
+					redaction.patterns = lines;
+					await this.plugin.saveSettings();
+				});
+			text.inputEl.rows = 3;
+		});
+	}
+
+	private displayCost(containerEl: HTMLElement): void {
+		containerEl.createEl('h3', { text: 'Cost and usage' });
+
+		const key = tokenBudgetKey(this.plugin.settings);
+		const price = resolvePrice(this.plugin.settings);
+		const setPrice = async (part: 'input' | 'output', value: string) => {
+			const parsed = parseFloat(value);
+			const current = this.plugin.settings.modelPrices[key] ?? price ?? { input: 0, output: 0 };
+			if (value.trim() === '') {
+				delete this.plugin.settings.modelPrices[key];
+			} else if (parsed >= 0) {
+				this.plugin.settings.modelPrices[key] = { ...current, [part]: parsed };
+			}
+			await this.plugin.saveSettings();
+		};
+
+		new Setting(containerEl)
+			.setName('Model price')
+			.setDesc(`US dollars per million input and output tokens for ${key}. ${price ? 'Leave empty to use the built-in price' : 'No built-in price is known for this model, so costs are not shown'}`)
+			.addText(text => text
+				.setPlaceholder(price ? String(price.input) : 'Input')
+				.setValue(this.plugin.settings.modelPrices[key]?.input.toString() ?? '')
+				.onChange(value => setPrice('input', value)))
+			.addText(text => text
+				.setPlaceholder(price ? String(price.output) : 'Output')
+				.setValue(this.plugin.settings.modelPrices[key]?.output.toString() ?? '')
+				.onChange(value => setPrice('output', value)));
+
+		new Setting(containerEl)
+			.setName('Confirm runs above')
+			.setDesc('Ask before a run whose projected cost exceeds this many US dollars; 0 never asks. Scheduled summaries above it are skipped instead')
+			.addText(text => text
+				.setPlaceholder(String(DEFAULT_SETTINGS.confirmCostAbove))
+				.setValue(String(this.plugin.settings.confirmCostAbove))
+				.onChange(async (value) => {
+					const parsed = parseFloat(value);
+					this.plugin.settings.confirmCostAbove = parsed >= 0 ? parsed : DEFAULT_SETTINGS.confirmCostAbove;
+					await this.plugin.saveSettings();
+				}));
+
+		const months = summarizeUsage(this.plugin.settings.usageRecords);
+		new Setting(containerEl)
+			.setName('Usage')
+			.setDesc(months.length
+				? 'Tokens used per month and channel, as reported by the provider or estimated when it doesn\'t report them'
+				: 'No summaries have been generated yet')
+			.addButton(button => button
+				.setButtonText('Clear history')
+				.setDisabled(months.length === 0)
+				.onClick(async () => {
+					this.plugin.settings.usageRecords = [];
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		const describeTotals = (totals: UsageTotals) => {
+			const cost = totals.unpriced ? `${formatCost(totals.cost)} + runs with unknown prices` : formatCost(totals.cost);
+			return `${totals.runs} runs, ${formatTokens(totals.inputTokens)} in, ${formatTokens(totals.outputTokens)} out, ${cost}`;
+		};
+		for (const month of months) {
+			const details = containerEl.createEl('details', { cls: 'discord-summarizer-usage' });
+			details.createEl('summary', { text: `${month.month}: ${describeTotals(month.total)}` });
+			for (const channel of month.channels) {
+				const target = this.plugin.settings.channelTargets.find(candidate => candidate.channelId === channel.channelId);
+				const name = channel.channelId ? channel.label || target?.label || channel.channelId : 'Digest overviews';
+				new Setting(details)
+					.setName(name)
+					.setDesc(describeTotals(channel.totals));
+			}
+		}
+	}
+
+	private displaySecretStorage(containerEl: HTMLElement): void {
+		containerEl.createEl('h3', { text: 'Secret storage' });
+
+		const plugin = this.plugin;
+		const source = plugin.settings.secretSource;
+
+		new Setting(containerEl)
+			.setName('Store secrets in')
+			.setDesc('The Discord token and API keys are never written to data.json, which is synced and committed with the vault')
+			.addDropdown(dropdown => dropdown
+				.addOptions({
+					encrypted: 'Encrypted on this device',
+					environment: 'Environment variables',
+					file: 'File outside the vault',
+				})
+				.setValue(source)
+				.onChange(async (value) => {
+					await plugin.setSecretSource(value as SecretSource);
+					this.display();
+				}));
+
+		if (source === 'encrypted') {
+			if (plugin.hasPlaintextSecrets) {
+				new Setting(containerEl)
+					.setName('Move secrets out of data.json')
+					.setDesc('Secrets saved by an earlier version are still in data.json. Choose a passphrase to encrypt them and remove them from the file')
+					.addButton(button => button
+						.setButtonText('Set passphrase')
+						.setCta()
+						.onClick(async () => {
+							if (await plugin.migratePlaintextSecrets()) {
+								this.display();
+							}
+						}));
+			} else if (plugin.secretsLocked) {
+				new Setting(containerEl)
+					.setName('Passphrase')
+					.setDesc('Secrets are locked. Enter the passphrase to view or change them')
+					.addButton(button => button
+						.setButtonText('Unlock')
+						.setCta()
+						.onClick(async () => {
+							if (await plugin.unlockSecrets()) {
+								this.display();
+							}
+						}));
+			} else {
+				new Setting(containerEl)
+					.setName('Passphrase')
+					.setDesc(plugin.secretsUnsaved
+						? 'No passphrase is set, so your secrets are only kept until Obsidian restarts'
+						: 'Secrets are encrypted in this device\'s local storage with a key derived from the passphrase')
+					.addButton(button => button
+						.setButtonText(plugin.secrets.unlocked ? 'Change passphrase' : 'Set passphrase')
+						.onClick(async () => {
+							const passphrase = await promptPassphrase(this.app, {
+								title: 'Set passphrase',
+								description: 'You will be asked for this passphrase once per session before secrets are used.',
+								confirm: true,
+							});
+							if (passphrase === null) {
+								return;
+							}
+							await plugin.secrets.setPassphrase(passphrase);
+							await plugin.saveSettings();
+							this.display();
+						}))
+					.addExtraButton(button => button
+						.setIcon('trash')
+						.setTooltip('Forget stored secrets on this device')
+						.onClick(async () => {
+							plugin.secrets.clear();
+							await plugin.loadSecrets();
+							this.display();
+						}));
+			}
+			return;
+		}
+
+		if (source === 'file') {
+			new Setting(containerEl)
+				.setName('Secrets file')
+				.setDesc('Absolute path of a JSON file with any of the keys "discordToken", "openAIKey", "compatibleKey" and "anthropicKey". Keep it outside the vault')
+				.addText(text => {
+					text
+					.setPlaceholder('/home/me/.config/discord-summarizer.json')
+					.setValue(plugin.settings.secretFilePath)
+					.onChange(async (value) => {
+						plugin.settings.secretFilePath = value.trim();
+						await plugin.saveSettings();
+					});
+					text.inputEl.addClass('settings-long-input');
+				});
+		} else {
+			new Setting(containerEl)
+				.setName('Variables')
+				.setDesc(`Read from ${SECRET_KEYS.map(key => SECRET_ENV_VARS[key]).join(', ')} when Obsidian starts`);
+		}
+
+		new Setting(containerEl)
+			.setName('Reload secrets')
+			.setDesc('Read the secrets again, e.g. after changing the file')
+			.addButton(button => button
+				.setButtonText('Reload')
+				.onClick(async () => {
+					await plugin.loadSecrets();
+					new Notice('Secrets reloaded.');
+					this.display();
+				}));
+	}
+
+	private displayChannelTarget(containerEl: HTMLElement, target: ChannelTarget, index: number): void {
+		new Setting(containerEl)
+			.setName(target.label || `Channel ${index + 1}`)
+			.addText(text => text
+				.setPlaceholder('Label (optional)')
+				.setValue(target.label)
+				.onChange(async (value) => {
+					target.label = value;
+					await this.plugin.saveSettings();
+				}))
+			.addText(text => text
+				.setPlaceholder('Server ID')
+				.setValue(target.serverId)
+				.onChange(async (value) => {
+					target.serverId = value.trim();
+					await this.plugin.saveSettings();
+				}))
+			.addText(text => text
+				.setPlaceholder('Channel ID')
+				.setValue(target.channelId)
+				.onChange(async (value) => {
+					target.channelId = value.trim();
+					await this.plugin.saveSettings();
+				}))
+			.addExtraButton(button => button
+				.setIcon('search')
+				.setTooltip('Pick from your Discord account')
+				.onClick(() => openChannelPicker(this.app, this.plugin.settings, async ({ guild, channel }) => {
+					target.serverId = guild.id;
+					target.channelId = channel.id;
+					if (!target.label) {
+						target.label = `#${channel.name} (${guild.name})`;
+					}
+					await this.plugin.saveSettings();
+					this.display();
+				})))
+			.addExtraButton(button => button
+				.setIcon('filter')
+				.setTooltip('Message filters')
+				.onClick(() => new FilterModal(this.app, target.label || `Channel ${index + 1}`, target.filter, () => this.plugin.saveSettings()).open()))
+			.addExtraButton(button => button
+				.setIcon('trash')
+				.setTooltip('Remove channel')
+				.onClick(async () => {
+					this.plugin.settings.channelTargets.splice(index, 1);
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		const scheduleSetting = new Setting(containerEl)
+			.setDesc('Automatically write a summary note for each day or week')
+			.addDropdown(dropdown => dropdown
+				.addOptions({
+					off: 'Not scheduled',
+					daily: 'Daily',
+					weekly: 'Weekly',
+				})
+				.setValue(target.schedule.frequency)
+				.onChange(async (value) => {
+					target.schedule.frequency = value as ScheduleFrequency;
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		if (target.schedule.frequency === 'weekly') {
+			scheduleSetting.addDropdown(dropdown => dropdown
+				.addOptions(Object.fromEntries(WEEKDAYS.map((name, day) => [String(day), name])))
+				.setValue(String(target.schedule.weekday))
+				.onChange(async (value) => {
+					target.schedule.weekday = parseInt(value, 10);
+					await this.plugin.saveSettings();
+				}));
+		}
+
+		if (target.schedule.frequency !== 'off') {
+			scheduleSetting.addText(text => {
+				text.inputEl.type = 'time';
+				text
+				.setValue(target.schedule.time)
+				.onChange(async (value) => {
+					target.schedule.time = value || '08:00';
+					await this.plugin.saveSettings();
+				});
+			});
+		}
+
+		new Setting(containerEl)
+			.setDesc('Prompt template for this channel')
+			.addDropdown(dropdown => dropdown
+				.addOption('', 'Default template')
+				.addOptions(this.templateOptions())
+				.setValue(target.templateId)
+				.onChange(async (value) => {
+					target.templateId = value;
+					await this.plugin.saveSettings();
+				}));
+	}
+
+	private templateOptions(): Record<string, string> {
+		return Object.fromEntries(allTemplates(this.plugin.settings).map(template => [template.id, template.name]));
+	}
+
+	private displayPromptTemplates(containerEl: HTMLElement): void {
+		containerEl.createEl('h3', { text: 'Prompt templates' });
+
+		new Setting(containerEl)
+			.setName('Default template')
+			.setDesc('Used for channels without a template of their own')
+			.addDropdown(dropdown => dropdown
+				.addOptions(this.templateOptions())
+				.setValue(findTemplate(this.plugin.settings).id)
+				.onChange(async (value) => {
+					this.plugin.settings.defaultTemplateId = value;
+					await this.plugin.saveSettings();
+				}));
+
+		this.plugin.settings.promptTemplates.forEach((template, index) => {
+			new Setting(containerEl)
+				.setName(template.name || `Template ${index + 1}`)
+				.addText(text => text
+					.setPlaceholder('Template name')
+					.setValue(template.name)
+					.onChange(async (value) => {
+						template.name = value;
+						await this.plugin.saveSettings();
+					}))
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip('Remove template')
+					.onClick(async () => {
+						this.plugin.settings.promptTemplates.splice(index, 1);
+						// Channels using the removed template fall back to the default
+						for (const target of this.plugin.settings.channelTargets) {
+							if (target.templateId === template.id) {
+								target.templateId = '';
+							}
+						}
+						await this.plugin.saveSettings();
+						this.display();
+					}));
+
+			new Setting(containerEl)
+				.setClass('prompt-template-body')
+				.addTextArea(text => text
+					.setValue(template.body)
+					.onChange(async (value) => {
+						template.body = value;
+						await this.plugin.saveSettings();
+					}));
+		});
+
+		let baseTemplateId = findTemplate(this.plugin.settings).id;
+		new Setting(containerEl)
+			.setDesc(`Add a template, starting from a copy of an existing one. Variables: ${TEMPLATE_VARIABLES.map(name => `{{${name}}}`).join(', ')}`)
+			.addDropdown(dropdown => dropdown
+				.addOptions(this.templateOptions())
+				.setValue(baseTemplateId)
+				.onChange(value => {
+					baseTemplateId = value;
+				}))
+			.addButton(button => button
+				.setButtonText('Add template')
+				.onClick(async () => {
+					const base = findTemplate(this.plugin.settings, baseTemplateId);
+					this.plugin.settings.promptTemplates.push({
+						id: `custom-${Date.now()}`,
+						name: `${base.name} (copy)`,
+						body: base.body,
+					});
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+	}
+
+	private displayMessageCursors(containerEl: HTMLElement): void {
+		containerEl.createEl('h3', { text: 'Incremental summaries' });
+
+		const cursors = Object.entries(this.plugin.settings.messageCursors);
+		new Setting(containerEl)
+			.setDesc(cursors.length
+				? 'Newest summarized message per channel. "Summarize new messages since the last summary" starts after it'
+				: 'No channel has been summarized yet')
+			.addButton(button => button
+				.setButtonText('Reset all')
+				.setDisabled(cursors.length === 0)
+				.onClick(async () => {
+					this.plugin.settings.messageCursors = {};
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		const dateUtils = new DateUtils();
+		for (const [channelId, messageId] of cursors) {
+			const target = this.plugin.settings.channelTargets.find(candidate => candidate.channelId === channelId);
+			const date = dateUtils.snowflakeToDate(messageId);
+
+			new Setting(containerEl)
+				.setName(target?.label || channelId)
+				.setDesc(`Message ${messageId}${date ? `, posted ${dateUtils.formatDate(date.toISOString())}` : ''}`)
+				.addExtraButton(button => button
+					.setIcon('rotate-ccw')
+					.setTooltip('Reset')
+					.onClick(async () => {
+						delete this.plugin.settings.messageCursors[channelId];
+						await this.plugin.saveSettings();
+						this.display();
+					}));
+		}
+	}
+
+	private displayScripting(containerEl: HTMLElement): void {
+		containerEl.createEl('h3', { text: 'Scripting' });
+
+		new Setting(containerEl)
+			.setName('Run URI requests without asking')
+			.setDesc('Summarize when an obsidian://discord-summarizer link is opened, without confirming first. Any web page or app can open such a link and spend provider credits')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.runUriWithoutAsking)
+				.onChange(async (value) => {
+					this.plugin.settings.runUriWithoutAsking = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Callback schemes')
+			.setDesc('URL schemes x-success and x-error may use besides https and obsidian, separated by commas, e.g. "shortcuts"')
+			.addText(text => text
+				.setPlaceholder('shortcuts')
+				.setValue(this.plugin.settings.callbackSchemes.join(', '))
+				.onChange(async (value) => {
+					this.plugin.settings.callbackSchemes = value
+						.split(',')
+						.map(scheme => scheme.trim().toLowerCase().replace(/:(\/\/)?$/, ''))
+						.filter(Boolean);
+					await this.plugin.saveSettings();
+				}));
+	}
+
+	private displayMessageCache(containerEl: HTMLElement): void {
+		containerEl.createEl('h3', { text: 'Message cache' });
+
+		new Setting(containerEl)
+			.setName('Cache messages')
+			.setDesc('Keep fetched messages in the plugin folder so re-summarizing a period does not download it again')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.cacheEnabled)
+				.onChange(async (value) => {
+					this.plugin.settings.cacheEnabled = value;
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		if (!this.plugin.settings.cacheEnabled) {
+			return;
+		}
+
+		new Setting(containerEl)
+			.setName('Retention')
+			.setDesc('Days to keep cached messages; 0 keeps them forever')
+			.addText(text => text
+				.setPlaceholder(String(DEFAULT_SETTINGS.cacheRetentionDays))
+				.setValue(String(this.plugin.settings.cacheRetentionDays))
+				.onChange(async (value) => {
+					const parsed = parseInt(value, 10);
+					this.plugin.settings.cacheRetentionDays = parsed >= 0 ? parsed : DEFAULT_SETTINGS.cacheRetentionDays;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Maximum messages per channel')
+			.setDesc('The oldest messages are dropped beyond this; 0 means no limit')
+			.addText(text => text
+				.setPlaceholder(String(DEFAULT_SETTINGS.cacheMaxMessagesPerChannel))
+				.setValue(String(this.plugin.settings.cacheMaxMessagesPerChannel))
+				.onChange(async (value) => {
+					const parsed = parseInt(value, 10);
+					this.plugin.settings.cacheMaxMessagesPerChannel = parsed >= 0 ? parsed : DEFAULT_SETTINGS.cacheMaxMessagesPerChannel;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Export folder')
+			.setDesc('Vault folder that archive exports are written to')
+			.addText(text => text
+				.setPlaceholder(DEFAULT_SETTINGS.archiveExportFolder)
+				.setValue(this.plugin.settings.archiveExportFolder)
+				.onChange(async (value) => {
+					this.plugin.settings.archiveExportFolder = value || DEFAULT_SETTINGS.archiveExportFolder;
+					await this.plugin.saveSettings();
+				}));
+
+		// Listing the cache needs the file system, so fill this part in once it's loaded
+		const listEl = containerEl.createDiv();
+		const cache = this.plugin.createMessageCache();
+		if (!cache) {
+			return;
+		}
+
+		cache.listArchives().then((archives) => {
+			for (const { channelId, size, modified } of archives) {
+				const target = this.plugin.settings.channelTargets.find(candidate => candidate.channelId === channelId);
+				const name = target?.label || channelId;
+				const exporter = new ArchiveExporter(this.app, cache, this.plugin.settings.archiveExportFolder);
+				const exportAs = async (format: ArchiveFormat) => {
+					try {
+						const file = await exporter.export(channelId, name, format);
+						new Notice(`Archive exported to ${file.path}`);
+					} catch (error) {
+						new Notice(`Export failed: ${describeError(error)}`);
+					}
+				};
+
+				new Setting(listEl)
+					.setName(name)
+					.setDesc(`${formatSize(size)}, updated ${new Date(modified).toLocaleString()}`)
+					.addButton(button => button
+						.setButtonText('Export Markdown')
+						.onClick(() => exportAs('markdown')))
+					.addButton(button => button
+						.setButtonText('Export JSONL')
+						.onClick(() => exportAs('jsonl')))
+					.addExtraButton(button => button
+						.setIcon('trash')
+						.setTooltip('Clear cache')
+						.onClick(async () => {
+							await cache.clear(channelId);
+							this.display();
+						}));
+			}
+		}).catch((error) => {
+			console.error('Could not list the message cache:', error);
+			listEl.createEl('p', { text: `Could not list the cached channels: ${describeError(error)}`, cls: 'setting-item-description' });
+		});
+	}
+}
+
+function formatSize(bytes: number): string {
+	if (bytes < 1024 * 1024) {
+		return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+	}
+	return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+const wrapTextWithPasswordHide = (text: TextComponent) => {
+	const hider = text.inputEl.insertAdjacentElement(
+		"beforebegin",
+		createSpan()
+	);
+	if (!hider) {
+		return;
+	}
+	setIcon(hider as HTMLElement, "eye-off");
+
+	hider.addEventListener("click", () => {
+		const isText = text.inputEl.getAttribute("type") === "text";
+		if (isText) {
+			setIcon(hider as HTMLElement, "eye-off");
+			text.inputEl.setAttribute("type", "password");
+		} else {
+			setIcon(hider as HTMLElement, "eye");
+			text.inputEl.setAttribute("type", "text");
+		}
+		text.inputEl.focus();
+	});
+	text.inputEl.setAttribute("type", "password");
+	return text;
+};
\ No newline at end of file
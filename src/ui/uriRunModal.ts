@@ -0,0 +1,47 @@
+import { App, Modal, Setting } from 'obsidian';
+
+class UriRunModal extends Modal {
+    private request: string[];
+    private onChoose: (confirmed: boolean) => void;
+    private confirmed = false;
+
+    constructor(app: App, request: string[], onChoose: (confirmed: boolean) => void) {
+        super(app);
+        this.request = request;
+        this.onChoose = onChoose;
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+        contentEl.createEl('h2', { text: 'Run this summary?' });
+        contentEl.createEl('p', { text: 'A link or another app asked to summarize a Discord channel, which uses your AI provider:' });
+        const list = contentEl.createEl('ul');
+        this.request.forEach(line => list.createEl('li', { text: line }));
+        contentEl.createEl('p', {
+            text: 'Requests like this can run without asking once "Run URI requests without asking" is on in the settings.',
+            cls: 'setting-item-description',
+        });
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Cancel')
+                .onClick(() => this.close()))
+            .addButton(button => button
+                .setButtonText('Run')
+                .setCta()
+                .onClick(() => {
+                    this.confirmed = true;
+                    this.close();
+                }));
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+        this.onChoose(this.confirmed);
+    }
+}
+
+/** Asks whether to run a summary requested through a URI; `request` lists its parameters. Resolves to false when dismissed. */
+export function confirmUriRun(app: App, request: string[]): Promise<boolean> {
+    return new Promise(resolve => new UriRunModal(app, request, resolve).open());
+}